@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { getItems, getItem, todayISO } from '@/utils/storage';
+import { updateOrder } from '@/services/orderRepository';
+import { SaveIcon, History } from 'lucide-react';
+import type { Order, OrderChange } from '@/types';
+
+interface EditOrderDialogProps {
+  order: Order | null;
+  symbol: string;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<OrderChange['field'], string> = {
+  date: 'Date',
+  item_id: 'Product',
+  quantity: 'Quantity',
+  unit_price: 'Unit price',
+  notes: 'Notes',
+};
+
+function describeValue(change: OrderChange, value: string | number): string {
+  if (change.field === 'item_id') return getItem(String(value))?.name || String(value);
+  if (value === '') return '—';
+  return String(value);
+}
+
+export default function EditOrderDialog({ order, symbol, onClose }: EditOrderDialogProps) {
+  const items = getItems();
+  const [date, setDate] = useState('');
+  const [itemId, setItemId] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!order) return;
+    setDate(order.date);
+    setItemId(order.item_id);
+    setQuantity(String(order.quantity));
+    setPrice(String(order.unit_price));
+    setNotes(order.notes || '');
+    setError('');
+  }, [order]);
+
+  if (!order) return null;
+
+  // Archived products stay selectable only for orders already using them
+  const choices = items.filter(i => !i.archived || i.id === order.item_id);
+
+  const handleSave = () => {
+    const qty = Number(quantity);
+    const prc = Number(price);
+
+    if (!date) return setError('Please select a date');
+    if (!qty || qty <= 0) return setError('Quantity must be positive');
+    if (!prc || prc <= 0) return setError('Price must be positive');
+    if (qty > 10000) return setError('Quantity too large');
+    if (prc > 10000) return setError('Price too large');
+
+    try {
+      updateOrder(order.id, {
+        date,
+        item_id: itemId,
+        quantity: qty,
+        unit_price: prc,
+        notes: notes.trim().slice(0, 200),
+      });
+    } catch (err) {
+      return setError(err instanceof Error ? err.message : String(err));
+    }
+    onClose();
+  };
+
+  const history = [...(order.history || [])].reverse();
+
+  return (
+    <Dialog open={!!order} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Sale</DialogTitle>
+          <DialogDescription>
+            Changes are saved locally, synced to the cloud and recorded in the history below.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+            {error}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div>
+            <label className="section-header block mb-1.5">Date</label>
+            <input type="date" value={date} onChange={e => setDate(e.target.value)} className="form-input" max={todayISO()} />
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Product</label>
+            <select value={itemId} onChange={e => setItemId(e.target.value)} className="form-input">
+              {choices.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="section-header block mb-1.5">Quantity</label>
+              <input type="number" min="1" step="1" value={quantity} onChange={e => setQuantity(e.target.value)} className="form-input" />
+            </div>
+            <div>
+              <label className="section-header block mb-1.5">Unit Price ({symbol})</label>
+              <input type="number" min="0.01" step="0.01" value={price} onChange={e => setPrice(e.target.value)} className="form-input" />
+            </div>
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Notes</label>
+            <textarea value={notes} onChange={e => setNotes(e.target.value)} rows={2} maxLength={200} className="form-input resize-none" />
+          </div>
+          <button onClick={handleSave} className="btn-primary w-full flex items-center justify-center gap-2">
+            <SaveIcon className="w-4 h-4" />
+            Save Changes
+          </button>
+        </div>
+
+        <div>
+          <p className="section-header flex items-center gap-2 mb-2">
+            <History className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+            Change History
+          </p>
+          {history.length === 0 ? (
+            <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              Not edited since it was recorded on {order.created_at.slice(0, 10)}.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {history.map(rev => (
+                <div key={rev.changed_at} className="rounded-lg px-3 py-2" style={{ background: 'hsl(var(--muted))' }}>
+                  <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                    {new Date(rev.changed_at).toLocaleString()} · {rev.changed_by}
+                  </p>
+                  {rev.changes.map(c => (
+                    <p key={c.field} className="text-xs font-mono mt-0.5" style={{ color: 'hsl(var(--foreground))' }}>
+                      {FIELD_LABELS[c.field]}: {describeValue(c, c.from)} → {describeValue(c, c.to)}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,12 @@
 import { ReactNode } from 'react';
-import { LayoutDashboard, PlusCircle, BarChart2, Settings, FileText } from 'lucide-react';
+import { LayoutDashboard, PlusCircle, BarChart2, Settings, FileText, CloudUpload, AlertTriangle, Menu, Package, Trash2, CalendarCheck, ChefHat, Boxes, ClipboardList, CalendarDays } from 'lucide-react';
+import {
+  DropdownMenu, DropdownMenuTrigger, DropdownMenuContent, DropdownMenuItem
+} from '@/components/ui/dropdown-menu';
+import { useFailedSync, usePendingSync } from '@/hooks/use-pending-sync';
+import { discardFailed, flushOutbox } from '@/services/syncQueue';
 
-export type Page = 'dashboard' | 'entry' | 'analytics' | 'costs' | 'reports';
+export type Page = 'dashboard' | 'entry' | 'analytics' | 'costs' | 'reports' | 'products' | 'trash' | 'periods' | 'recipes' | 'inventory' | 'prep' | 'calendar';
 
 interface LayoutProps {
   children: ReactNode;
@@ -17,7 +22,28 @@ const NAV_ITEMS: { id: Page; label: string; icon: typeof LayoutDashboard }[] = [
   { id: 'reports', label: 'Reports', icon: FileText },
 ];
 
+// Less frequent screens, reached from the header menu
+const MORE_ITEMS: { id: Page; label: string; icon: typeof LayoutDashboard }[] = [
+  { id: 'products', label: 'Products', icon: Package },
+  { id: 'prep', label: 'Production Planning', icon: ClipboardList },
+  { id: 'recipes', label: 'Recipes & COGS', icon: ChefHat },
+  { id: 'inventory', label: 'Inventory', icon: Boxes },
+  { id: 'calendar', label: 'Trading Calendar', icon: CalendarDays },
+  { id: 'periods', label: 'Month-End Close', icon: CalendarCheck },
+  { id: 'trash', label: 'Trash', icon: Trash2 },
+];
+
 export default function Layout({ children, activePage, onNavigate }: LayoutProps) {
+  const pending = usePendingSync();
+  const failed = useFailedSync();
+
+  const dismissFailed = () => {
+    const lines = failed.map(e => `${e.order.item_name} on ${e.order.date}: ${e.last_error}`);
+    if (confirm(`These changes were rejected by the cloud and will not be retried:\n\n${lines.join('\n')}\n\nDismiss them?`)) {
+      discardFailed();
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col max-w-screen-xl mx-auto">
       {/* Top bar */}
@@ -28,7 +54,45 @@ export default function Layout({ children, activePage, onNavigate }: LayoutProps
           </div>
           <span className="font-bold text-sm tracking-tight" style={{ color: 'hsl(var(--foreground))' }}>LSRIS</span>
         </div>
-        <span className="section-header text-xs">Revenue Intelligence</span>
+        <div className="flex items-center gap-3">
+          {pending > 0 && (
+            <button
+              onClick={() => flushOutbox(true)}
+              className="badge-warning flex items-center gap-1"
+              title="Sales waiting to sync to the cloud — tap to retry"
+            >
+              <CloudUpload className="w-3 h-3" />
+              {pending} pending
+            </button>
+          )}
+          {failed.length > 0 && (
+            <button
+              onClick={dismissFailed}
+              className="badge-danger flex items-center gap-1"
+              title="Changes the cloud rejected — tap to see why"
+            >
+              <AlertTriangle className="w-3 h-3" />
+              {failed.length} not synced
+            </button>
+          )}
+          <span className="section-header text-xs">Revenue Intelligence</span>
+          <DropdownMenu>
+            <DropdownMenuTrigger className="p-1 rounded" style={{ color: 'hsl(var(--muted-foreground))' }} title="More">
+              <Menu className="w-5 h-5" />
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {MORE_ITEMS.map(item => {
+                const Icon = item.icon;
+                return (
+                  <DropdownMenuItem key={item.id} onSelect={() => onNavigate(item.id)} className="gap-2">
+                    <Icon className="w-4 h-4" />
+                    {item.label}
+                  </DropdownMenuItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </header>
 
       {/* Content */}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { getActiveItems, getProductionLogs, getProductionPlans, saveProductionLog, todayISO } from '@/utils/storage';
+import type { Order } from '@/types';
+import { SaveIcon, Trash } from 'lucide-react';
+
+interface ProductionLogFormProps {
+  orders: Order[];
+  onSaved?: () => void;
+}
+
+type Row = { produced: string; wasted: string; given_away: string };
+
+const EMPTY_ROW: Row = { produced: '', wasted: '', given_away: '' };
+
+/** End-of-day tally of produced, wasted and given-away units per product */
+export default function ProductionLogForm({ orders, onSaved }: ProductionLogFormProps) {
+  const items = getActiveItems();
+  const [date, setDate] = useState(todayISO());
+  const [rows, setRows] = useState<Record<string, Row>>({});
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  // Prefill from an existing log, else from the saved prep plan
+  useEffect(() => {
+    const logs = getProductionLogs().filter(l => l.date === date);
+    const plans = getProductionPlans().filter(p => p.date === date);
+    const next: Record<string, Row> = {};
+    getActiveItems().forEach(item => {
+      const log = logs.find(l => l.item_id === item.id);
+      const plan = plans.find(p => p.item_id === item.id);
+      next[item.id] = log
+        ? { produced: String(log.produced), wasted: String(log.wasted), given_away: String(log.given_away) }
+        : { ...EMPTY_ROW, produced: plan ? String(plan.planned_units) : '' };
+    });
+    setRows(next);
+    setError('');
+  }, [date]);
+
+  const soldOf = (itemId: string) =>
+    orders.filter(o => o.date === date && o.item_id === itemId).reduce((s, o) => s + o.quantity, 0);
+
+  const update = (itemId: string, field: keyof Row, value: string) =>
+    setRows({ ...rows, [itemId]: { ...(rows[itemId] || EMPTY_ROW), [field]: value } });
+
+  const handleSave = () => {
+    const now = new Date().toISOString();
+    const entries = items
+      .map(item => ({ item, row: rows[item.id] || EMPTY_ROW }))
+      .filter(({ row }) => row.produced !== '' || row.wasted !== '' || row.given_away !== '');
+
+    for (const { item, row } of entries) {
+      const produced = Number(row.produced) || 0;
+      const wasted = Number(row.wasted) || 0;
+      const given = Number(row.given_away) || 0;
+      if (produced < 0 || wasted < 0 || given < 0) return setError('Quantities cannot be negative');
+      if (wasted + given + soldOf(item.id) > produced && produced > 0) {
+        return setError(`${item.name}: sold, wasted and given away exceed produced`);
+      }
+    }
+
+    try {
+      entries.forEach(({ item, row }) => saveProductionLog({
+        id: `${date}_${item.id}`,
+        date,
+        item_id: item.id,
+        item_name: item.name,
+        produced: Number(row.produced) || 0,
+        wasted: Number(row.wasted) || 0,
+        given_away: Number(row.given_away) || 0,
+        updated_at: now,
+      }));
+    } catch (err) {
+      return setError(err instanceof Error ? err.message : String(err));
+    }
+    setError('');
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+    onSaved?.();
+  };
+
+  return (
+    <div className="stat-card space-y-3">
+      <p className="section-header flex items-center gap-2">
+        <Trash className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+        End-of-Day Log
+      </p>
+      <input type="date" value={date} max={todayISO()} onChange={e => setDate(e.target.value)} className="form-input" />
+
+      {error && (
+        <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-5 gap-2 text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+        <span className="col-span-1">Product</span>
+        <span className="text-right">Sold</span>
+        <span>Made</span>
+        <span>Wasted</span>
+        <span>Given</span>
+      </div>
+      {items.map(item => {
+        const row = rows[item.id] || EMPTY_ROW;
+        return (
+          <div key={item.id} className="grid grid-cols-5 gap-2 items-center">
+            <span className="text-sm truncate" style={{ color: 'hsl(var(--foreground))' }}>{item.name}</span>
+            <span className="font-mono text-sm text-right" style={{ color: 'hsl(var(--muted-foreground))' }}>{soldOf(item.id)}</span>
+            {(['produced', 'wasted', 'given_away'] as const).map(field => (
+              <input
+                key={field} type="number" min="0" step="1" value={row[field]}
+                onChange={e => update(item.id, field, e.target.value)}
+                placeholder="0" className="form-input px-2"
+              />
+            ))}
+          </div>
+        );
+      })}
+
+      {saved && (
+        <div className="text-sm rounded-lg px-3 py-2 text-center" style={{ background: 'hsl(var(--success) / 0.1)', color: 'hsl(var(--success))' }}>
+          ✓ Production log saved
+        </div>
+      )}
+
+      <button onClick={handleSave} className="btn-primary w-full flex items-center justify-center gap-2">
+        <SaveIcon className="w-4 h-4" />
+        Save Log for {date}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import type { Order } from "@/types";
+import { getAllOrders, subscribeOrders, syncOrders } from "@/services/orderRepository";
+import { subscribeOutbox } from "@/services/syncQueue";
+
+/** Reconciled orders from the repository; re-renders on any repository write. */
+export function useOrders(): Order[] {
+  const [orders, setOrders] = useState<Order[]>(() => getAllOrders());
+
+  useEffect(() => {
+    const refresh = () => setOrders(getAllOrders());
+    const unsubscribeOrders = subscribeOrders(refresh);
+    // Replays stamp firestoreIds onto local orders
+    const unsubscribeOutbox = subscribeOutbox(refresh);
+    syncOrders();
+    return () => {
+      unsubscribeOrders();
+      unsubscribeOutbox();
+    };
+  }, []);
+
+  return orders;
+}
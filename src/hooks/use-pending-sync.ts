@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { failedEntries, pendingCount, subscribeOutbox } from "@/services/syncQueue";
+import type { OutboxEntry } from "@/types";
+
+/** Number of cloud writes still waiting in the outbox. */
+export function usePendingSync(): number {
+  const [count, setCount] = useState(() => pendingCount());
+
+  useEffect(() => subscribeOutbox(() => setCount(pendingCount())), []);
+
+  return count;
+}
+
+/** Cloud writes rejected for good, kept until the user dismisses them. */
+export function useFailedSync(): OutboxEntry[] {
+  const [failed, setFailed] = useState(() => failedEntries());
+
+  useEffect(() => subscribeOutbox(() => setFailed(failedEntries())), []);
+
+  return failed;
+}
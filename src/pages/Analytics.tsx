@@ -1,15 +1,31 @@
 import { useMemo, useState } from 'react';
-import { getOrders, getConfig, daysAgoISO } from '@/utils/storage';
+import {
+  getConfig, saveConfig, getEvents, getAnomalyLabels, saveAnomalyLabel, deleteAnomalyLabel,
+  getItem, getItems, getActiveItems, getProductionLogs, todayISO, daysAgoISO
+} from '@/utils/storage';
+import { useOrders } from '@/hooks/use-orders';
+import { basketMetrics } from '@/utils/transactions';
+import { itemUnitCogs } from '@/utils/costing';
+import { wasteByDay, wasteTotals } from '@/utils/production';
+import {
+  addDays, calendarFromConfig, dailySeries, nextTradingDays, productTradingDays, seasonLength, tradingDays
+} from '@/utils/timeseries';
+import { demandForecast } from '@/utils/demand';
+import { eventIndicators, eventImpacts } from '@/utils/events';
+import { excludeLabelled, labelId, productAnomalies } from '@/utils/anomalies';
 import {
   mean, stdDev, linearRegression, pearsonCorrelation, autocorrelation,
-  zScore, coefficientOfVariation, additiveDecomposition, detectAnomalies,
-  errorMetrics, movingAverage, exponentialMovingAverage, weightedMovingAverage,
-  generateForecast, sensitivitySimulation, detectStructuralBreaks, rollingStats
+  zScore, coefficientOfVariation, decompose, robustAnomalies,
+  exponentialMovingAverage, weightedMovingAverage, walkForwardBacktest,
+  generateForecast, sensitivitySimulation, detectChangePoints, rollingStats, fitHoltWinters, autoArima, eventAdjustment,
+  BACKTEST_TRAIN_DAYS,
+  type ForecastModelKey, type DecompositionMethod, type DecompositionMode
 } from '@/utils/math';
 import {
   ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid,
-  Tooltip, ReferenceLine, AreaChart, Area, ScatterChart, Scatter, BarChart, Bar
+  Tooltip, ReferenceLine, AreaChart, Area, ScatterChart, Scatter, BarChart, Bar, ComposedChart
 } from 'recharts';
+import type { AnomalyCause, AnomalyLabel, AnomalyMethod } from '@/types';
 
 const TOOLTIP = {
   backgroundColor: 'hsl(220 18% 11%)',
@@ -39,50 +55,207 @@ function StatRow({ label, value, unit = '', highlight = false }: { label: string
   );
 }
 
-type AnalyticsTab = 'decomp' | 'forecast' | 'anomaly' | 'correlation' | 'sensitivity';
+type AnalyticsTab = 'decomp' | 'forecast' | 'anomaly' | 'correlation' | 'sensitivity' | 'waste';
+type SeriesMetric = 'revenue' | 'quantity';
+type ForecastModel = ForecastModelKey;
+
+const FORECAST_MODELS: { key: ForecastModel; label: string; color: string; width: number; dash?: string }[] = [
+  { key: 'linear', label: 'Linear Regression', color: '185,85%,48%', width: 2 },
+  { key: 'ma', label: 'MA Regression', color: '38,92%,50%', width: 1.5, dash: '4 2' },
+  { key: 'ema', label: 'EMA Regression', color: '280,70%,60%', width: 1.5 },
+  { key: 'wma', label: 'WMA Regression', color: '145,65%,42%', width: 1.5, dash: '3 3' },
+  { key: 'hw', label: 'Holt-Winters', color: '0,72%,55%', width: 2 },
+  { key: 'arima', label: 'Seasonal ARIMA', color: '330,70%,60%', width: 2 },
+];
+
+const DECOMP_METHODS: { key: DecompositionMethod; label: string }[] = [
+  { key: 'stl', label: 'STL (LOESS)' },
+  { key: 'classical', label: 'Classical moving average' },
+  { key: 'ols', label: 'OLS trend + weekday' },
+];
+
+const DECOMP_MODES: DecompositionMode[] = ['additive', 'multiplicative'];
+
+const ANOMALY_METHODS: { key: AnomalyMethod; label: string }[] = [
+  { key: 'mad', label: 'Rolling median / MAD' },
+  { key: 'stl', label: 'Seasonal residual (STL)' },
+  { key: 'iqr', label: 'Rolling IQR fences' },
+  { key: 'zscore', label: 'Global z-score' },
+];
+
+const CAUSE_LABELS: Record<AnomalyCause, string> = {
+  event: 'Event / holiday',
+  promotion: 'Promotion',
+  weather: 'Weather',
+  stockout: 'Stock-out',
+  data_error: 'Data error',
+  other: 'Other',
+};
 
 export default function Analytics() {
-  const orders = getOrders();
+  const orders = useOrders();
   const config = getConfig();
   const symbol = config.currency_symbol;
   const [tab, setTab] = useState<AnalyticsTab>('decomp');
+  const [productId, setProductId] = useState('all');
+  const [metric, setMetric] = useState<SeriesMetric>('revenue');
+  const [decompMethod, setDecompMethod] = useState<DecompositionMethod>('stl');
+  const [decompMode, setDecompMode] = useState<DecompositionMode>('additive');
+  const [anomalyMethod, setAnomalyMethod] = useState<AnomalyMethod>(config.anomaly_method);
+  const [threshold, setThreshold] = useState(String(config.anomaly_threshold));
+  const [labels, setLabels] = useState<AnomalyLabel[]>(getAnomalyLabels);
+
+  // Every product that has sales, including archived ones
+  const products = useMemo(() => {
+    const names: Record<string, string> = {};
+    orders.forEach(o => { names[o.item_id] = getItem(o.item_id)?.name || o.item_name; });
+    return Object.entries(names).map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [orders]);
+
+  // Read once; the trading calendar is edited on its own page
+  const calendar = useMemo(() => calendarFromConfig(getConfig()), []);
+  const events = useMemo(() => getEvents(), []);
+  const season = seasonLength(calendar);
+  const forecastDates = useMemo(() => nextTradingDays(addDays(todayISO(), 1), 14, calendar), [calendar]);
 
-  const { dailyDates, dailyRevenues, weekdayNums, quantityArr } = useMemo(() => {
-    const dailyMap: Record<string, { rev: number; qty: number }> = {};
-    orders.forEach(o => {
-      if (!dailyMap[o.date]) dailyMap[o.date] = { rev: 0, qty: 0 };
-      dailyMap[o.date].rev += o.total_revenue;
-      dailyMap[o.date].qty += o.quantity;
-    });
-    const sorted = Object.keys(dailyMap).sort();
+  // Calendar-filled from the first sale to yesterday (today is still trading);
+  // open days come from all products so a single product keeps its genuine
+  // zero-sales days
+  const { dailyDates, dailyRevenues, weekdayNums, quantityArr, closedDays, zeroDays } = useMemo(() => {
+    const all = dailySeries(orders, calendar, { end: addDays(todayISO(), -1) });
+    const stall = tradingDays(all, calendar);
+    const points = productId === 'all'
+      ? stall
+      : productTradingDays(
+        dailySeries(orders, calendar, { start: all[0]?.date, end: all[all.length - 1]?.date, itemId: productId }),
+        stall,
+        calendar
+      );
     return {
-      dailyDates: sorted,
-      dailyRevenues: sorted.map(d => dailyMap[d].rev),
-      weekdayNums: sorted.map(d => new Date(d).getDay()),
-      quantityArr: sorted.map(d => dailyMap[d].qty),
+      dailyDates: points.map(p => p.date),
+      dailyRevenues: points.map(p => p.revenue),
+      weekdayNums: points.map(p => new Date(p.date).getDay()),
+      quantityArr: points.map(p => p.quantity),
+      closedDays: all.filter(p => p.closed).length,
+      zeroDays: points.filter(p => !p.closed && p.lines === 0).length,
     };
-  }, [orders]);
+  }, [orders, productId, calendar]);
 
-  const hasData = dailyRevenues.length >= 3;
-
-  const decomp = useMemo(() => hasData ? additiveDecomposition(dailyDates, dailyRevenues) : [], [dailyDates, dailyRevenues]);
-  const anomalies = useMemo(() => hasData ? detectAnomalies(dailyDates, dailyRevenues) : [], [dailyDates, dailyRevenues]);
-  const reg = useMemo(() => hasData ? linearRegression(dailyRevenues) : null, [dailyRevenues]);
-  const maVals = useMemo(() => hasData ? movingAverage(dailyRevenues, Math.min(7, dailyRevenues.length)) : [], [dailyRevenues]);
-  const emaVals = useMemo(() => hasData ? exponentialMovingAverage(dailyRevenues, config.ema_alpha) : [], [dailyRevenues]);
-  const wmaVals = useMemo(() => hasData ? weightedMovingAverage(dailyRevenues, Math.min(7, dailyRevenues.length)) : [], [dailyRevenues]);
-  const acf = useMemo(() => hasData ? autocorrelation(dailyRevenues, 7) : [], [dailyRevenues]);
-  const rollingS = useMemo(() => hasData ? rollingStats(dailyRevenues, Math.min(7, dailyRevenues.length)) : [], [dailyRevenues]);
-  const cv = coefficientOfVariation(dailyRevenues);
-  const weekdayCorr = hasData ? pearsonCorrelation(weekdayNums, dailyRevenues) : 0;
+  const series = metric === 'revenue' ? dailyRevenues : quantityArr;
+  const seriesLabel = metric === 'revenue' ? 'Revenue' : 'Units';
+  const fmt = (v: number) => (metric === 'revenue' ? `${symbol} ${v.toFixed(2)}` : `${v.toFixed(2)} pcs`);
+
+  const hasData = series.length >= 3;
+  const itemId = productId === 'all' ? undefined : productId;
+  const anomalyThreshold = Math.min(6, Math.max(1, Number(threshold) || 3));
+
+  // Models fit the series with labelled anomaly days imputed
+  const fitSeries = useMemo(
+    () => excludeLabelled(dailyDates, series, labels, itemId, season),
+    [dailyDates, series, labels, itemId, season]
+  );
+
+  // Holiday and festival windows as regressors over history and forecast days
+  const regressors = useMemo(
+    () => ({ history: eventIndicators(events, dailyDates), future: eventIndicators(events, forecastDates) }),
+    [events, dailyDates, forecastDates]
+  );
+  // Every method × mode, so the Decomp tab can compare residual variance
+  const decompositions = useMemo(
+    () => hasData
+      ? DECOMP_METHODS.flatMap(m => DECOMP_MODES.map(mode => ({
+        method: m.key,
+        mode,
+        result: decompose(dailyDates, fitSeries, { method: m.key, mode, season, events: regressors.history }),
+      })))
+      : [],
+    [hasData, dailyDates, fitSeries, season, regressors]
+  );
+  // Multiplicative is unavailable with zero-sales days; fall back to additive,
+  // and to OLS until there are two seasons for classical and STL
+  const decompFor = (method: DecompositionMethod, mode: DecompositionMode) =>
+    decompositions.find(d => d.method === method && d.mode === mode)?.result;
+  const decomp = (decompFor(decompMethod, decompMode) || decompFor(decompMethod, 'additive') || decompFor('ols', 'additive')) ?? null;
+  const bestDecomp = decompositions.reduce<(typeof decompositions)[number] | null>(
+    (b, d) => (d.result && (!b?.result || d.result.residual_variance < b.result.residual_variance) ? d : b),
+    null
+  );
+  const impacts = useMemo(() => hasData ? eventImpacts(events, dailyDates, fitSeries) : [], [hasData, events, dailyDates, fitSeries]);
+  const anomalies = useMemo(
+    () => hasData ? robustAnomalies(dailyDates, series, { method: anomalyMethod, threshold: anomalyThreshold, season }) : [],
+    [hasData, dailyDates, series, anomalyMethod, anomalyThreshold, season]
+  );
+  const perProduct = useMemo(
+    () => productId === 'all'
+      ? productAnomalies(orders, calendar, { since: daysAgoISO(30), method: anomalyMethod, threshold: anomalyThreshold, season }).slice(0, 10)
+      : [],
+    [orders, calendar, productId, anomalyMethod, anomalyThreshold, season]
+  );
+  const reg = useMemo(() => hasData ? linearRegression(series) : null, [series]);
+  const emaVals = useMemo(() => hasData ? exponentialMovingAverage(series, config.ema_alpha) : [], [series]);
+  const wmaVals = useMemo(() => hasData ? weightedMovingAverage(series, Math.min(7, series.length)) : [], [series]);
+  const acf = useMemo(() => hasData ? autocorrelation(series, 7) : [], [series]);
+  const rollingS = useMemo(() => hasData ? rollingStats(series, Math.min(7, series.length)) : [], [series]);
+  const cv = coefficientOfVariation(series);
+  const weekdayCorr = hasData ? pearsonCorrelation(weekdayNums, series) : 0;
   const qtyCorr = hasData ? pearsonCorrelation(quantityArr, dailyRevenues) : 0;
-  const forecast = dailyRevenues.length >= 7 ? generateForecast(dailyRevenues, 14, config.forecasting_window, config.ema_alpha) : [];
-  const breakPoints = hasData ? detectStructuralBreaks(dailyRevenues) : [];
+  // Fitted once on the event-free series: the forecast lines and the parameter notes share them
+  const adjustment = useMemo(() => eventAdjustment(fitSeries, regressors, season), [fitSeries, regressors, season]);
+  const hwFit = useMemo(() => fitHoltWinters(adjustment.adjusted, season), [adjustment, season]);
+  const arimaFit = useMemo(() => autoArima(adjustment.adjusted, season), [adjustment, season]);
+  const forecast = useMemo(
+    () => series.length >= 7
+      ? generateForecast(fitSeries, 14, config.forecasting_window, config.ema_alpha, season, regressors, { hw: hwFit, arima: arimaFit })
+      : [],
+    [series.length, fitSeries, config.forecasting_window, config.ema_alpha, season, regressors, hwFit, arimaFit]
+  );
+  const arimaPath = arimaFit
+    ? arimaFit.forecast(14).map((p, i) => {
+      const lift = adjustment.future[i] || 0;
+      return { mean: p.mean + lift, lower: p.lower + lift, upper: p.upper + lift };
+    })
+    : [];
+  const [shown, setShown] = useState<Record<ForecastModel, boolean>>({ linear: true, ma: true, ema: true, wma: true, hw: true, arima: true });
+  const available = (m: ForecastModel) => (m === 'hw' ? !!hwFit : m === 'arima' ? !!arimaFit : true);
+  const demand = useMemo(() => {
+    const items = productId === 'all' ? getActiveItems() : getItems().filter(i => i.id === productId);
+    return demandForecast(orders, items, addDays(todayISO(), 1), 14, 56, config.forecasting_window, config.ema_alpha, calendar, events, labels, todayISO());
+  }, [orders, productId, config.forecasting_window, config.ema_alpha, calendar, events, labels]);
+  const regimes = useMemo(
+    () => hasData ? detectChangePoints(fitSeries) : { segments: [], changepoints: [] },
+    [hasData, fitSeries]
+  );
+  const changeDates = regimes.changepoints.map(c => dailyDates[c.index]);
+  const segmentMeans = regimes.segments.flatMap(seg => Array(seg.end - seg.start).fill(seg.mean) as number[]);
+  const baskets = basketMetrics(orders);
+  const wasteDays = useMemo(() => {
+    const since = daysAgoISO(30);
+    const logs = getProductionLogs().filter(l => l.date >= since && (productId === 'all' || l.item_id === productId));
+    return wasteByDay(logs, orders, itemUnitCogs);
+  }, [orders, productId]);
+  const waste = wasteTotals(wasteDays);
+
+  // Error metrics on held-out days (rolling origin)
+  const backtest = useMemo(
+    () => walkForwardBacktest(fitSeries, {
+      horizon: 7, maxTrain: BACKTEST_TRAIN_DAYS, maWindow: config.forecasting_window, emaAlpha: config.ema_alpha, season,
+    }),
+    [fitSeries, config.forecasting_window, config.ema_alpha, season]
+  );
+  const best = backtest[0];
 
-  // Error metrics (use in-sample)
-  const maForecast = maVals.filter(v => !isNaN(v));
-  const actualForMA = dailyRevenues.slice(dailyRevenues.length - maForecast.length);
-  const metrics = maForecast.length >= 2 ? errorMetrics(actualForMA, maForecast) : { mae: 0, mse: 0, rmse: 0, mape: 0 };
+  const labelFor = (date: string, item?: string) => labels.find(l => l.id === labelId(date, item));
+  const labelAnomaly = (date: string, cause: string, item?: string) => {
+    const id = labelId(date, item);
+    if (cause) saveAnomalyLabel({ id, date, ...(item ? { item_id: item } : {}), cause: cause as AnomalyCause, created_at: new Date().toISOString() });
+    else deleteAnomalyLabel(id);
+    setLabels(getAnomalyLabels());
+  };
+  const updateAnomalySettings = (method: AnomalyMethod, value: string) => {
+    setAnomalyMethod(method);
+    setThreshold(value);
+    saveConfig({ ...getConfig(), anomaly_method: method, anomaly_threshold: Math.min(6, Math.max(1, Number(value) || 3)) });
+  };
 
   // Sensitivity
   const baseRev = mean(dailyRevenues);
@@ -96,6 +269,7 @@ export default function Analytics() {
     { id: 'anomaly', label: 'Anomaly' },
     { id: 'correlation', label: 'Corr' },
     { id: 'sensitivity', label: 'Sensitivity' },
+    { id: 'waste', label: 'Waste' },
   ];
 
   if (!hasData) {
@@ -115,6 +289,18 @@ export default function Analytics() {
     <div className="px-4 py-4 space-y-4">
       <p className="section-header">Quantitative Analytics Engine</p>
 
+      {/* Series selector */}
+      <div className="grid grid-cols-2 gap-3">
+        <select value={productId} onChange={e => setProductId(e.target.value)} className="form-input">
+          <option value="all">All products</option>
+          {products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <select value={metric} onChange={e => setMetric(e.target.value as SeriesMetric)} className="form-input">
+          <option value="revenue">Revenue ({symbol})</option>
+          <option value="quantity">Quantity (pcs)</option>
+        </select>
+      </div>
+
       {/* Tab Bar */}
       <div className="flex gap-1 overflow-x-auto scrollbar-thin pb-1">
         {tabs.map(t => (
@@ -135,21 +321,65 @@ export default function Analytics() {
 
       {/* Descriptive Stats — always visible */}
       <SectionCard title="Descriptive Statistics">
-        <StatRow label="Mean Daily Revenue" value={`${symbol} ${mean(dailyRevenues).toFixed(2)}`} highlight />
-        <StatRow label="Std Deviation" value={`${symbol} ${stdDev(dailyRevenues).toFixed(2)}`} />
+        <StatRow label={`Mean Daily ${seriesLabel}`} value={fmt(mean(series))} highlight />
+        <StatRow label="Std Deviation" value={fmt(stdDev(series))} />
         <StatRow label="Coefficient of Variation" value={(cv * 100).toFixed(1)} unit="%" />
         <StatRow label="Regression Slope" value={reg?.slope || 0} />
         <StatRow label="R² (fit quality)" value={reg?.r_squared || 0} />
-        <StatRow label="Structural Breaks" value={breakPoints.length} />
-        <StatRow label="Data Points" value={dailyRevenues.length} />
+        <StatRow label="Change Points (PELT)" value={String(regimes.changepoints.length)} />
+        <StatRow label="Data Points (trading days)" value={series.length} />
+        <StatRow label="Zero-Sales Days" value={String(zeroDays)} />
+        <StatRow label="Closed Days (left out or imputed)" value={String(closedDays)} />
       </SectionCard>
 
+      {/* Basket statistics — whole transactions, so all products only */}
+      {productId === 'all' && (
+        <SectionCard title="Transactions & Basket Size">
+          <StatRow label="Transactions" value={String(baskets.transactions)} />
+          <StatRow label="Transactions / Day" value={(baskets.transactions / dailyDates.length).toFixed(2)} />
+          <StatRow label="Avg Basket Value" value={`${symbol} ${baskets.avg_basket_value.toFixed(2)}`} highlight />
+          <StatRow label="Avg Units / Basket" value={baskets.avg_basket_units.toFixed(2)} />
+          <StatRow label="Avg Lines / Basket" value={baskets.avg_basket_lines.toFixed(2)} />
+        </SectionCard>
+      )}
+
       {/* Forecast Error Metrics */}
-      <SectionCard title="Forecast Error Metrics (MA)">
-        <StatRow label="MAE" value={`${symbol} ${metrics.mae.toFixed(2)}`} />
-        <StatRow label="MSE" value={`${symbol}² ${metrics.mse.toFixed(2)}`} />
-        <StatRow label="RMSE" value={`${symbol} ${metrics.rmse.toFixed(2)}`} highlight />
-        <StatRow label="MAPE" value={metrics.mape.toFixed(1)} unit="%" />
+      <SectionCard title="Walk-Forward Backtest (Held-Out Days)">
+        {best ? (
+          <>
+            <table className="w-full text-xs">
+              <thead>
+                <tr style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  <th className="text-left pb-1.5 font-medium">Model</th>
+                  <th className="text-right pb-1.5 font-medium">MAE</th>
+                  <th className="text-right pb-1.5 font-medium">RMSE</th>
+                  <th className="text-right pb-1.5 font-medium">MAPE</th>
+                  <th className="text-right pb-1.5 font-medium">sMAPE</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                {backtest.map(r => (
+                  <tr key={r.model} className="border-t" style={{ borderColor: 'hsl(var(--border))', color: r === best ? 'hsl(var(--cyan))' : undefined }}>
+                    <td className="py-1.5 font-sans">{FORECAST_MODELS.find(m => m.key === r.model)?.label}</td>
+                    <td className="text-right">{r.overall.mae.toFixed(2)}</td>
+                    <td className="text-right">{r.overall.rmse.toFixed(2)}</td>
+                    <td className="text-right">{r.overall.mape.toFixed(1)}%</td>
+                    <td className="text-right">{r.overall.smape.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="mt-3">
+              <StatRow label="Best Model (lowest MAE)" value={FORECAST_MODELS.find(m => m.key === best.model)?.label || best.model} highlight />
+              <StatRow label="RMSE by Horizon (day 1…7)" value={best.by_horizon.map(m => m.rmse.toFixed(1)).join(' · ')} />
+            </div>
+            <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              Refit at each of the last {best.origins} days on up to {BACKTEST_TRAIN_DAYS} days of history, scored 1–7 days ahead · errors in {metric === 'revenue' ? symbol : 'pcs'}
+            </p>
+          </>
+        ) : (
+          <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>Need 15+ trading days of data to backtest forecasts</p>
+        )}
       </SectionCard>
 
       {/* Autocorrelation */}
@@ -172,26 +402,153 @@ export default function Analytics() {
       {/* DECOMPOSITION */}
       {tab === 'decomp' && (
         <>
-          <SectionCard title="Additive Decomposition R(t) = T(t) + S(t) + E(t)">
-            <ResponsiveContainer width="100%" height={180}>
-              <LineChart data={decomp.map(d => ({ ...d, date: d.date.slice(5) }))} margin={{ left: -20, right: 5 }}>
-                <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
-                <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} interval="preserveStartEnd" />
-                <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
-                <Tooltip contentStyle={TOOLTIP} />
-                <Line type="monotone" dataKey="revenue" stroke="hsl(185,85%,48%)" dot={false} strokeWidth={2} name="Actual" />
-                <Line type="monotone" dataKey="trend" stroke="hsl(38,92%,50%)" dot={false} strokeWidth={2} strokeDasharray="5 3" name="Trend" />
-                <Line type="monotone" dataKey="seasonal" stroke="hsl(280,70%,60%)" dot={false} strokeWidth={1.5} name="Seasonal" />
-              </LineChart>
-            </ResponsiveContainer>
-            <div className="flex gap-3 flex-wrap mt-2">
-              {[['Revenue','185,85%,48%'],['Trend','38,92%,50%'],['Seasonal','280,70%,60%']].map(([l,c]) => (
-                <div key={l} className="flex items-center gap-1">
-                  <div className="w-3 h-0.5 rounded" style={{ background: `hsl(${c})` }} />
-                  <span className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>{l}</span>
+          <div className="grid grid-cols-2 gap-3">
+            <select value={decompMethod} onChange={e => setDecompMethod(e.target.value as DecompositionMethod)} className="form-input">
+              {DECOMP_METHODS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+            </select>
+            <select value={decompMode} onChange={e => setDecompMode(e.target.value as DecompositionMode)} className="form-input">
+              {DECOMP_MODES.map(m => <option key={m} value={m}>{m === 'additive' ? 'Additive' : 'Multiplicative'}</option>)}
+            </select>
+          </div>
+
+          <SectionCard title={decomp?.mode === 'multiplicative'
+            ? `Multiplicative R(t) = T(t) · S(t)${decomp.has_monthly ? ' · M(t)' : ''} · E(t) + H(t)`
+            : `Additive R(t) = T(t) + S(t)${decomp?.has_monthly ? ' + M(t)' : ''} + H(t) + E(t)`}>
+            {decomp ? (
+              <>
+                <ResponsiveContainer width="100%" height={180}>
+                  <LineChart data={decomp.points.map((p, i) => {
+                    const mult = decomp.mode === 'multiplicative';
+                    return {
+                      date: p.date.slice(5),
+                      value: p.value,
+                      trend: isNaN(p.trend) ? null : +p.trend.toFixed(2),
+                      // Seasonal swings in data units, whichever mode
+                      seasonal: mult ? (isNaN(p.trend) ? null : +(p.trend * (p.seasonal - 1)).toFixed(2)) : +p.seasonal.toFixed(2),
+                      monthly: mult ? (isNaN(p.trend) ? null : +(p.trend * (p.monthly - 1)).toFixed(2)) : +p.monthly.toFixed(2),
+                      event: +p.event.toFixed(2),
+                      segment: segmentMeans[i],
+                    };
+                  })} margin={{ left: -20, right: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
+                    <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} interval="preserveStartEnd" />
+                    <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+                    <Tooltip contentStyle={TOOLTIP} />
+                    <Line type="monotone" dataKey="value" stroke="hsl(185,85%,48%)" dot={false} strokeWidth={2} name="Actual" />
+                    <Line type="monotone" dataKey="trend" stroke="hsl(38,92%,50%)" dot={false} strokeWidth={2} strokeDasharray="5 3" name="Trend" />
+                    <Line type="monotone" dataKey="seasonal" stroke="hsl(280,70%,60%)" dot={false} strokeWidth={1.5} name="Seasonal" />
+                    {decomp.has_monthly && <Line type="stepAfter" dataKey="monthly" stroke="hsl(200,80%,60%)" dot={false} strokeWidth={1.5} name="Monthly" />}
+                    {events.length > 0 && <Line type="stepAfter" dataKey="event" stroke="hsl(145,65%,42%)" dot={false} strokeWidth={1.5} name="Events" />}
+                    <Line type="stepAfter" dataKey="segment" stroke="hsl(0,72%,55%)" dot={false} strokeWidth={1} name="Segment Mean" />
+                    {changeDates.map(d => <ReferenceLine key={d} x={d.slice(5)} stroke="hsl(0,72%,55%)" strokeDasharray="3 3" />)}
+                  </LineChart>
+                </ResponsiveContainer>
+                <div className="flex gap-3 flex-wrap mt-2">
+                  {[
+                    [seriesLabel, '185,85%,48%'], ['Trend', '38,92%,50%'], ['Seasonal', '280,70%,60%'],
+                    ...(decomp.has_monthly ? [['Monthly', '200,80%,60%']] : []),
+                    ['Segment Mean', '0,72%,55%'],
+                    ...(events.length > 0 ? [['Events', '145,65%,42%']] : []),
+                  ].map(([l, c]) => (
+                    <div key={l} className="flex items-center gap-1">
+                      <div className="w-3 h-0.5 rounded" style={{ background: `hsl(${c})` }} />
+                      <span className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>{l}</span>
+                    </div>
+                  ))}
                 </div>
-              ))}
-            </div>
+                {decomp.method !== decompMethod ? (
+                  <p className="text-xs mt-2" style={{ color: 'hsl(var(--warning))' }}>
+                    Classical and STL need {2 * season}+ trading days; showing OLS.
+                  </p>
+                ) : decomp.mode !== decompMode && (
+                  <p className="text-xs mt-2" style={{ color: 'hsl(var(--warning))' }}>
+                    {decompMethod === 'ols' ? 'The OLS method is additive only' : 'Multiplicative needs every day above zero'}; showing additive.
+                  </p>
+                )}
+                {!decomp.has_monthly && (
+                  <p className="text-xs mt-1" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                    Monthly seasonality is added once the history spans a year.
+                  </p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-center py-4" style={{ color: 'hsl(var(--muted-foreground))' }}>Need 3+ trading days to decompose</p>
+            )}
+          </SectionCard>
+
+          {bestDecomp && (
+            <SectionCard title="Method Comparison (Residual Variance)">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr style={{ color: 'hsl(var(--muted-foreground))' }}>
+                    <th className="text-left pb-1.5 font-medium">Method</th>
+                    <th className="text-left pb-1.5 font-medium">Mode</th>
+                    <th className="text-right pb-1.5 font-medium">Resid. σ²</th>
+                    <th className="text-right pb-1.5 font-medium">Unexplained</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                  {decompositions.map(d => (
+                    <tr
+                      key={`${d.method}_${d.mode}`}
+                      onClick={() => { if (d.result) { setDecompMethod(d.method); setDecompMode(d.mode); } }}
+                      className="border-t cursor-pointer"
+                      style={{
+                        borderColor: 'hsl(var(--border))',
+                        color: d === bestDecomp ? 'hsl(var(--cyan))' : d.result ? undefined : 'hsl(var(--muted-foreground))',
+                        fontWeight: d.method === decomp?.method && d.mode === decomp?.mode ? 600 : undefined,
+                      }}
+                    >
+                      <td className="py-1.5 font-sans">{DECOMP_METHODS.find(m => m.key === d.method)?.label}</td>
+                      <td className="font-sans">{d.mode}</td>
+                      <td className="text-right">{d.result ? d.result.residual_variance.toFixed(2) : '—'}</td>
+                      <td className="text-right">{d.result ? `${d.result.unexplained_pct.toFixed(1)}%` : 'n/a'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                Variance of actual − fitted in {metric === 'revenue' ? symbol : 'pcs'}² for every mode, so rows compare directly; classical leaves {Math.floor(season / 2)} days at each end without a trend. Tap a row to show it.
+              </p>
+            </SectionCard>
+          )}
+
+          <SectionCard title="Holiday & Festival Effects">
+            {impacts.some(i => i.days > 0) ? (
+              <>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr style={{ color: 'hsl(var(--muted-foreground))' }}>
+                      <th className="text-left pb-1.5 font-medium">Event</th>
+                      <th className="text-right pb-1.5 font-medium">Days</th>
+                      <th className="text-right pb-1.5 font-medium">Effect / Day</th>
+                      <th className="text-right pb-1.5 font-medium">vs Normal</th>
+                    </tr>
+                  </thead>
+                  <tbody className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                    {impacts.filter(i => i.days > 0).map(i => (
+                      <tr key={i.event.id} className="border-t" style={{ borderColor: 'hsl(var(--border))' }}>
+                        <td className="py-1.5 font-sans">{i.event.name}</td>
+                        <td className="text-right">{i.days}</td>
+                        <td className="text-right" style={{ color: i.effect >= 0 ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>
+                          {i.effect >= 0 ? '+' : '−'}{fmt(Math.abs(i.effect))}
+                        </td>
+                        <td className="text-right">{i.baseline > 0 ? `${i.pct >= 0 ? '+' : ''}${i.pct.toFixed(0)}%` : '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  Joint least-squares lift over trend + weekday on days inside each event window (pre/post days included). Forecasts add it back on upcoming event days.
+                </p>
+              </>
+            ) : (
+              <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                {events.length > 0
+                  ? 'No event window falls inside the sales history yet'
+                  : 'Add holidays and festivals on the Trading Calendar page to estimate their effect'}
+              </p>
+            )}
           </SectionCard>
 
           <SectionCard title="Rolling Volatility (7-day window)">
@@ -202,9 +559,38 @@ export default function Analytics() {
                 <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
                 <Tooltip contentStyle={TOOLTIP} />
                 <Area type="monotone" dataKey="std" stroke="hsl(38,92%,50%)" fill="hsl(38,92%,50%,0.15)" strokeWidth={1.5} name="Std Dev" />
+                {changeDates.map(d => <ReferenceLine key={d} x={d.slice(5)} stroke="hsl(0,72%,55%)" strokeDasharray="3 3" />)}
               </AreaChart>
             </ResponsiveContainer>
           </SectionCard>
+
+          <SectionCard title="Regime Changes (PELT on Mean & Variance)">
+            {regimes.changepoints.length > 0 ? (
+              <div className="space-y-2">
+                {regimes.changepoints.map(c => (
+                  <div key={c.index} className="py-1.5 border-b last:border-0 text-xs" style={{ borderColor: 'hsl(var(--border))' }}>
+                    <div className="flex justify-between">
+                      <span style={{ color: 'hsl(var(--foreground))' }}>{dailyDates[c.index]}</span>
+                      <span className="font-mono" style={{ color: c.mean_shift >= 0 ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>
+                        {c.mean_shift >= 0 ? '+' : ''}{c.mean_shift_pct.toFixed(1)}% mean
+                      </span>
+                    </div>
+                    <p className="font-mono mt-0.5" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                      {fmt(c.before.mean)} ± {c.before.std.toFixed(2)} ({c.before.end - c.before.start}d) → {fmt(c.after.mean)} ± {c.after.std.toFixed(2)} ({c.after.end - c.after.start}d)
+                      {c.std_ratio > 0 ? ` · σ ×${c.std_ratio.toFixed(2)}` : ''}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                {series.length < 14 ? 'Need 14+ trading days to look for regime changes' : 'No change in level or volatility detected'}
+              </p>
+            )}
+            <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              Segments of 7+ trading days; penalty 3·ln n per extra segment. Dashed lines on the charts mark each change.
+            </p>
+          </SectionCard>
         </>
       )}
 
@@ -215,30 +601,43 @@ export default function Analytics() {
             <>
               <ResponsiveContainer width="100%" height={200}>
                 <LineChart data={forecast.map((f, i) => {
-                  const d = new Date();
-                  d.setDate(d.getDate() + i + 1);
-                  return { date: d.toISOString().slice(5,10), linear: +f.linear.toFixed(2), ma: +f.ma.toFixed(2), ema: +f.ema.toFixed(2), wma: +f.wma.toFixed(2), lower: +f.lower.toFixed(2), upper: +f.upper.toFixed(2) };
+                  const a = arimaPath[i];
+                  return {
+                    date: forecastDates[i].slice(5), linear: +f.linear.toFixed(2), ma: +f.ma.toFixed(2), ema: +f.ema.toFixed(2), wma: +f.wma.toFixed(2), hw: +f.hw.toFixed(2), lower: +f.lower.toFixed(2), upper: +f.upper.toFixed(2),
+                    arima: a ? +a.mean.toFixed(2) : null, arima_lower: a ? +a.lower.toFixed(2) : null, arima_upper: a ? +a.upper.toFixed(2) : null,
+                  };
                 })} margin={{ left: -20, right: 5 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
                   <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
                   <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
                   <Tooltip contentStyle={TOOLTIP} />
-                  <Line type="monotone" dataKey="linear" stroke="hsl(185,85%,48%)" dot={false} strokeWidth={2} name="Linear" />
-                  <Line type="monotone" dataKey="ma" stroke="hsl(38,92%,50%)" dot={false} strokeWidth={1.5} strokeDasharray="4 2" name="MA" />
-                  <Line type="monotone" dataKey="ema" stroke="hsl(280,70%,60%)" dot={false} strokeWidth={1.5} name="EMA" />
-                  <Line type="monotone" dataKey="wma" stroke="hsl(145,65%,42%)" dot={false} strokeWidth={1.5} strokeDasharray="3 3" name="WMA" />
-                  <Line type="monotone" dataKey="upper" stroke="hsl(215,12%,40%)" dot={false} strokeWidth={1} strokeDasharray="2 4" name="95% CI Upper" />
-                  <Line type="monotone" dataKey="lower" stroke="hsl(215,12%,40%)" dot={false} strokeWidth={1} strokeDasharray="2 4" name="95% CI Lower" />
+                  {FORECAST_MODELS.filter(m => shown[m.key] && available(m.key)).map(m => (
+                    <Line key={m.key} type="monotone" dataKey={m.key} stroke={`hsl(${m.color})`} dot={false} strokeWidth={m.width} strokeDasharray={m.dash} name={m.label} />
+                  ))}
+                  {shown.linear && <Line type="monotone" dataKey="upper" stroke="hsl(215,12%,40%)" dot={false} strokeWidth={1} strokeDasharray="2 4" name="95% CI Upper" />}
+                  {shown.linear && <Line type="monotone" dataKey="lower" stroke="hsl(215,12%,40%)" dot={false} strokeWidth={1} strokeDasharray="2 4" name="95% CI Lower" />}
+                  {shown.arima && arimaFit && <Line type="monotone" dataKey="arima_upper" stroke="hsl(330,70%,45%)" dot={false} strokeWidth={1} strokeDasharray="2 4" name="ARIMA 95% PI Upper" />}
+                  {shown.arima && arimaFit && <Line type="monotone" dataKey="arima_lower" stroke="hsl(330,70%,45%)" dot={false} strokeWidth={1} strokeDasharray="2 4" name="ARIMA 95% PI Lower" />}
                 </LineChart>
               </ResponsiveContainer>
               <div className="grid grid-cols-2 gap-2 mt-3">
-                {[['Linear','185,85%,48%'],['MA','38,92%,50%'],['EMA','280,70%,60%'],['WMA','145,65%,42%']].map(([l,c]) => (
-                  <div key={l} className="flex items-center gap-1.5">
-                    <div className="w-3 h-0.5 rounded" style={{ background: `hsl(${c})` }} />
-                    <span className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>{l} Regression</span>
-                  </div>
+                {FORECAST_MODELS.filter(m => available(m.key)).map(m => (
+                  <button key={m.key} onClick={() => setShown({ ...shown, [m.key]: !shown[m.key] })} className="flex items-center gap-1.5 text-left" style={{ opacity: shown[m.key] ? 1 : 0.4 }}>
+                    <div className="w-3 h-0.5 rounded" style={{ background: `hsl(${m.color})` }} />
+                    <span className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>{m.label}</span>
+                  </button>
                 ))}
               </div>
+              <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                {hwFit
+                  ? `Holt-Winters ${hwFit.mode} · α=${hwFit.alpha} β=${hwFit.beta} γ=${hwFit.gamma} · season ${hwFit.season} trading days (grid search on in-sample SSE)`
+                  : `Holt-Winters needs ${2 * season}+ trading days of data`}
+              </p>
+              <p className="text-xs mt-1" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                {arimaFit
+                  ? `ARIMA(${arimaFit.order.p},${arimaFit.order.d},${arimaFit.order.q})(${arimaFit.order.P},${arimaFit.order.D},${arimaFit.order.Q})${arimaFit.order.season} · AIC ${arimaFit.aic.toFixed(1)} · σ=${Math.sqrt(arimaFit.sigma2).toFixed(2)} · interval widens with horizon`
+                  : `ARIMA needs ${2 * season}+ trading days of data`}
+              </p>
             </>
           ) : (
             <p className="text-sm text-center py-4" style={{ color: 'hsl(var(--muted-foreground))' }}>Need 7+ days of data for multi-model forecast</p>
@@ -246,40 +645,130 @@ export default function Analytics() {
         </SectionCard>
       )}
 
-      {/* ANOMALY */}
-      {tab === 'anomaly' && (
-        <SectionCard title="Z-Score Anomaly Detection (|z| > 2.0)">
+      {tab === 'forecast' && demand.products.length > 0 && (
+        <SectionCard title="14-Day Unit Forecast × Current Price">
           <ResponsiveContainer width="100%" height={180}>
-            <LineChart data={anomalies.map(a => ({ date: a.date.slice(5), revenue: a.revenue, zscore: +a.zscore.toFixed(2), anomaly: a.is_anomaly ? a.revenue : null }))} margin={{ left: -20, right: 5 }}>
+            <ComposedChart data={demand.dates.map((d, i) => ({ date: d.slice(5), units: +demand.units[i].toFixed(1), revenue: +demand.revenue[i].toFixed(2) }))} margin={{ left: -20, right: -20 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
-              <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} interval="preserveStartEnd" />
-              <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+              <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+              <YAxis yAxisId="units" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+              <YAxis yAxisId="revenue" orientation="right" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
               <Tooltip contentStyle={TOOLTIP} />
-              <Line type="monotone" dataKey="revenue" stroke="hsl(185,85%,48%)" dot={false} strokeWidth={2} />
-              <Line type="monotone" dataKey="anomaly" stroke="hsl(var(--danger))" dot={{ fill: 'hsl(0,72%,55%)', r: 5 }} strokeWidth={0} connectNulls={false} />
-            </LineChart>
+              <Bar yAxisId="units" dataKey="units" fill="hsl(145,65%,42%)" name="Units" radius={[3, 3, 0, 0]} />
+              <Line yAxisId="revenue" type="monotone" dataKey="revenue" stroke="hsl(185,85%,48%)" dot={false} strokeWidth={2} name={`Revenue (${symbol})`} />
+            </ComposedChart>
           </ResponsiveContainer>
-          <div className="mt-3 space-y-1.5">
-            {anomalies.filter(a => a.is_anomaly).map(a => (
-              <div key={a.date} className="flex justify-between text-xs rounded px-2 py-1.5" style={{ background: 'hsl(var(--danger) / 0.1)', border: '1px solid hsl(var(--danger) / 0.3)' }}>
-                <span style={{ color: 'hsl(var(--danger))' }}>{a.date}</span>
-                <span style={{ color: 'hsl(var(--foreground))' }}>{symbol} {a.revenue.toFixed(2)} (z={a.zscore.toFixed(2)})</span>
-              </div>
+          <div className="mt-3">
+            {demand.products.map(p => (
+              <StatRow key={p.item_id} label={`${p.item_name} · ${p.total_units.toFixed(0)} pcs @ ${symbol} ${p.unit_price.toFixed(2)}`} value={`${symbol} ${p.total_revenue.toFixed(2)}`} />
             ))}
-            {anomalies.filter(a => a.is_anomaly).length === 0 && (
-              <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>No anomalies detected</p>
+            {demand.products.length > 1 && (
+              <StatRow label="Expected Revenue" value={`${symbol} ${demand.revenue.reduce((s, r) => s + r, 0).toFixed(2)}`} highlight />
             )}
           </div>
+          <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            Pieces forecast per product (mean of Linear, EMA, WMA on the last 56 days), priced at today's list price
+          </p>
         </SectionCard>
       )}
 
+      {/* ANOMALY */}
+      {tab === 'anomaly' && (
+        <>
+          <SectionCard title={`${ANOMALY_METHODS.find(m => m.key === anomalyMethod)?.label} (|score| > ${anomalyThreshold})`}>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+              <select value={anomalyMethod} onChange={e => updateAnomalySettings(e.target.value as AnomalyMethod, threshold)} className="form-input">
+                {ANOMALY_METHODS.map(m => <option key={m.key} value={m.key}>{m.label}</option>)}
+              </select>
+              <input
+                type="number" min="1" max="6" step="0.5" value={threshold}
+                onChange={e => setThreshold(e.target.value)}
+                onBlur={e => updateAnomalySettings(anomalyMethod, e.target.value)}
+                className="form-input" aria-label="Sensitivity threshold"
+              />
+            </div>
+            <ResponsiveContainer width="100%" height={180}>
+              <LineChart data={anomalies.map(a => {
+                const labelled = !!labelFor(a.date, itemId);
+                return {
+                  date: a.date.slice(5), value: a.value, expected: +a.expected.toFixed(2),
+                  anomaly: a.is_anomaly && !labelled ? a.value : null,
+                  labelled: labelled ? a.value : null,
+                };
+              })} margin={{ left: -20, right: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
+                <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} interval="preserveStartEnd" />
+                <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+                <Tooltip contentStyle={TOOLTIP} />
+                <Line type="monotone" dataKey="value" stroke="hsl(185,85%,48%)" dot={false} strokeWidth={2} name={seriesLabel} />
+                <Line type="monotone" dataKey="expected" stroke="hsl(38,92%,50%)" dot={false} strokeWidth={1} strokeDasharray="4 3" name="Expected" />
+                <Line type="monotone" dataKey="anomaly" stroke="hsl(var(--danger))" dot={{ fill: 'hsl(0,72%,55%)', r: 5 }} strokeWidth={0} connectNulls={false} name="Anomaly" />
+                <Line type="monotone" dataKey="labelled" stroke="hsl(215,12%,48%)" dot={{ fill: 'hsl(215,12%,48%)', r: 4 }} strokeWidth={0} connectNulls={false} name="Labelled" />
+              </LineChart>
+            </ResponsiveContainer>
+            <div className="mt-3 space-y-1.5">
+              {anomalies.filter(a => a.is_anomaly || labelFor(a.date, itemId)).map(a => {
+                const label = labelFor(a.date, itemId);
+                return (
+                  <div key={a.date} className="flex justify-between items-center gap-2 text-xs rounded px-2 py-1.5" style={{
+                    background: label ? 'hsl(var(--secondary))' : 'hsl(var(--danger) / 0.1)',
+                    border: `1px solid ${label ? 'hsl(var(--border))' : 'hsl(var(--danger) / 0.3)'}`,
+                  }}>
+                    <span style={{ color: label ? 'hsl(var(--muted-foreground))' : 'hsl(var(--danger))' }}>{a.date}</span>
+                    <span className="flex-1 text-right" style={{ color: 'hsl(var(--foreground))' }}>
+                      {fmt(a.value)} <span style={{ color: 'hsl(var(--muted-foreground))' }}>vs {fmt(a.expected)} · {a.score.toFixed(1)}</span>
+                    </span>
+                    <select value={label?.cause || ''} onChange={e => labelAnomaly(a.date, e.target.value, itemId)} className="form-input w-auto px-1.5 py-0.5 text-xs">
+                      <option value="">Label…</option>
+                      {Object.entries(CAUSE_LABELS).map(([k, l]) => <option key={k} value={k}>{l}</option>)}
+                    </select>
+                  </div>
+                );
+              })}
+              {anomalies.filter(a => a.is_anomaly).length === 0 && (
+                <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>No anomalies detected</p>
+              )}
+            </div>
+            <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              Lower the threshold to flag more days. A labelled day is replaced by a typical day for its weekday before decomposition, backtests and forecasts are fitted{productId === 'all' ? '; stall-wide labels also apply to every product' : ''}.
+            </p>
+          </SectionCard>
+
+          {productId === 'all' && (
+            <SectionCard title="Per-Product Anomalies (Units, Last 30 Days)">
+              {perProduct.length === 0 ? (
+                <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>No product-level anomalies</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {perProduct.map(a => {
+                    const label = labelFor(a.date, a.item_id);
+                    return (
+                      <div key={`${a.date}_${a.item_id}`} className="flex justify-between items-center gap-2 text-xs py-1 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))' }}>
+                        <span style={{ color: label ? 'hsl(var(--muted-foreground))' : 'hsl(var(--danger))' }}>{a.date} · {a.item_name}</span>
+                        <span className="flex-1 text-right font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                          {a.value} <span style={{ color: 'hsl(var(--muted-foreground))' }}>vs {a.expected.toFixed(1)} pcs</span>
+                        </span>
+                        <select value={label?.cause || ''} onChange={e => labelAnomaly(a.date, e.target.value, a.item_id)} className="form-input w-auto px-1.5 py-0.5 text-xs">
+                          <option value="">Label…</option>
+                          {Object.entries(CAUSE_LABELS).map(([k, l]) => <option key={k} value={k}>{l}</option>)}
+                        </select>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </SectionCard>
+          )}
+        </>
+      )}
+
       {/* CORRELATION */}
       {tab === 'correlation' && (
         <>
           <SectionCard title="Pearson Correlation Matrix">
             <div className="space-y-3">
               {[
-                { label: 'Weekday vs Revenue', value: weekdayCorr, desc: 'Does day of week predict revenue?' },
+                { label: `Weekday vs ${seriesLabel}`, value: weekdayCorr, desc: `Does day of week predict ${seriesLabel.toLowerCase()}?` },
                 { label: 'Quantity vs Revenue', value: qtyCorr, desc: 'Higher sales volume → higher revenue?' },
               ].map(({ label, value, desc }) => (
                 <div key={label}>
@@ -326,6 +815,55 @@ export default function Analytics() {
           </p>
         </SectionCard>
       )}
+
+      {/* WASTE */}
+      {tab === 'waste' && (
+        wasteDays.length === 0 ? (
+          <SectionCard title="Waste & Unsold Stock (30 Days)">
+            <p className="text-xs text-center py-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              No production logged in the last 30 days — record the end-of-day log under Production Planning
+            </p>
+          </SectionCard>
+        ) : (
+          <>
+            <SectionCard title="Waste & Unsold Stock (30 Days)">
+              <StatRow label="Produced" value={String(waste.produced)} />
+              <StatRow label="Sold" value={String(waste.sold)} />
+              <StatRow label="Wasted" value={String(waste.wasted)} />
+              <StatRow label="Given Away" value={String(waste.given_away)} />
+              <StatRow label="Waste Rate" value={waste.waste_rate.toFixed(1)} unit="%" highlight />
+              <StatRow label="Waste Cost (COGS)" value={`${symbol} ${waste.waste_cost.toFixed(2)}`} />
+            </SectionCard>
+
+            <SectionCard title="Daily Waste Rate (%)">
+              <ResponsiveContainer width="100%" height={160}>
+                <LineChart data={wasteDays.map(d => ({ date: d.date.slice(5), rate: +d.waste_rate.toFixed(1) }))} margin={{ left: -20, right: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
+                  <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} interval="preserveStartEnd" />
+                  <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+                  <Tooltip contentStyle={TOOLTIP} />
+                  <ReferenceLine y={+waste.waste_rate.toFixed(1)} stroke="hsl(var(--warning))" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="rate" stroke="hsl(0,72%,55%)" dot={false} strokeWidth={2} name="Waste %" />
+                </LineChart>
+              </ResponsiveContainer>
+              <p className="text-xs mt-1" style={{ color: 'hsl(var(--muted-foreground))' }}>Dashed = 30-day average</p>
+            </SectionCard>
+
+            <SectionCard title="Units Not Sold per Day">
+              <ResponsiveContainer width="100%" height={160}>
+                <BarChart data={wasteDays.map(d => ({ date: d.date.slice(5), wasted: d.wasted, given: d.given_away }))} margin={{ left: -20, right: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
+                  <XAxis dataKey="date" tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} interval="preserveStartEnd" />
+                  <YAxis tick={{ fontSize: 9, fill: 'hsl(215,12%,48%)' }} />
+                  <Tooltip contentStyle={TOOLTIP} />
+                  <Bar dataKey="wasted" stackId="w" fill="hsl(0,72%,55%)" name="Wasted" />
+                  <Bar dataKey="given" stackId="w" fill="hsl(38,92%,50%)" name="Given away" radius={[3, 3, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </SectionCard>
+          </>
+        )
+      )}
     </div>
   );
 }
@@ -1,111 +1,303 @@
-import { useState, useEffect } from 'react';
-import { getCosts, saveCost, getCostForMonth, getConfig, monthISO } from '@/utils/storage';
-import { getOrders } from '@/utils/storage';
-import { breakEvenAnalysis, profitMargin } from '@/utils/math';
-import { SaveIcon, TrendingUp } from 'lucide-react';
-import type { CostEntry } from '@/types';
+import { useState } from 'react';
+import {
+  getExpensesForMonth, saveExpense, deleteExpense, getExpenseCategories, getExpenseCategory,
+  saveExpenseCategory, getConfig, getPeriod, monthISO, todayISO
+} from '@/utils/storage';
+import { closePeriod, reopenPeriod } from '@/services/periodService';
+import { useOrders } from '@/hooks/use-orders';
+import { breakEvenAnalysis, productMixBreakEven, profitMargin } from '@/utils/math';
+import { productMixInputs } from '@/utils/costing';
+import { SaveIcon, PlusCircle, TrendingUp, Lock, Unlock, Pencil, Trash2, Target } from 'lucide-react';
+import type { CostBehavior, Expense, ExpenseCategory, PaymentMethod } from '@/types';
+
+const PAYMENT_METHODS: { id: PaymentMethod; label: string }[] = [
+  { id: 'cash', label: 'Cash' },
+  { id: 'card', label: 'Card' },
+  { id: 'transfer', label: 'Bank Transfer' },
+  { id: 'ewallet', label: 'E-Wallet' },
+  { id: 'other', label: 'Other' },
+];
+
+const emptyForm = (date: string) => ({
+  date, category_id: 'misc', amount: '', vendor: '', payment_method: 'cash' as PaymentMethod, notes: '',
+});
 
 export default function Costs() {
   const config = getConfig();
   const symbol = config.currency_symbol;
   const currentMonth = monthISO();
+  const orders = useOrders();
 
   const [month, setMonth] = useState(currentMonth);
-  const [flour, setFlour] = useState('');
-  const [gas, setGas] = useState('');
-  const [electricity, setElectricity] = useState('');
-  const [labor, setLabor] = useState('');
-  const [misc, setMisc] = useState('');
+  const [expenses, setExpenses] = useState<Expense[]>(() => getExpensesForMonth(currentMonth));
+  const [categories, setCategories] = useState(() => getExpenseCategories());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(() => emptyForm(todayISO()));
+  const [newCategory, setNewCategory] = useState('');
+  const [newBehavior, setNewBehavior] = useState<CostBehavior>('fixed');
   const [saved, setSaved] = useState(false);
+  const [error, setError] = useState('');
+
+  const defaultDate = (m: string) => (m === currentMonth ? todayISO() : `${m}-01`);
 
-  // Load existing
-  useEffect(() => {
-    const existing = getCostForMonth(month);
-    if (existing) {
-      setFlour(String(existing.flour_cost));
-      setGas(String(existing.gas_cost));
-      setElectricity(String(existing.electricity_cost));
-      setLabor(String(existing.labor_cost));
-      setMisc(String(existing.misc_cost));
-    } else {
-      setFlour(''); setGas(''); setElectricity(''); setLabor(''); setMisc('');
+  const refresh = (m: string = month) => setExpenses(getExpensesForMonth(m));
+
+  const selectMonth = (m: string) => {
+    setMonth(m);
+    refresh(m);
+    setEditingId(null);
+    setForm(emptyForm(defaultDate(m)));
+    setError('');
+  };
+
+  const period = getPeriod(month);
+  const isClosed = period.status === 'closed';
+
+  const togglePeriod = () => {
+    setError('');
+    if (!isClosed) {
+      if (confirm(`Close ${month}? Sales and expenses in this month will be frozen.`)) closePeriod(month);
+      return;
     }
-  }, [month]);
+    const reason = prompt(`Why are you reopening ${month}?`);
+    if (reason === null) return;
+    try {
+      reopenPeriod(month, reason);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
 
-  const total = [flour, gas, electricity, labor, misc].reduce((s, v) => s + (Number(v) || 0), 0);
+  const total = expenses.reduce((s, e) => s + e.amount, 0);
+  const behaviorOf = (categoryId: string): CostBehavior =>
+    categories.find(c => c.id === categoryId)?.behavior || 'fixed';
+  const variableCost = expenses.filter(e => behaviorOf(e.category_id) === 'variable').reduce((s, e) => s + e.amount, 0);
+  const fixedCost = total - variableCost;
 
-  const monthRevenue = getOrders()
-    .filter(o => o.date.startsWith(month))
-    .reduce((s, o) => s + o.total_revenue, 0);
+  const monthOrders = orders.filter(o => o.date.startsWith(month));
+  const monthRevenue = monthOrders.reduce((s, o) => s + o.total_revenue, 0);
 
-  const analysis = breakEvenAnalysis(monthRevenue, total);
+  const analysis = breakEvenAnalysis(monthRevenue, fixedCost, variableCost);
   const margin = profitMargin(monthRevenue, total);
+  const reachable = Number.isFinite(analysis.break_even);
+
+  // Contribution margin per product at this month's mix
+  const mix = productMixBreakEven(fixedCost, productMixInputs(monthOrders, variableCost));
+  const remainingFixed = Math.max(0, fixedCost - mix.contribution_earned);
+  const unitsSold = mix.products.reduce((s, p) => s + p.units, 0);
+  const unitsShort = Number.isFinite(mix.break_even_units) ? Math.max(0, Math.ceil(mix.break_even_units - unitsSold)) : Infinity;
+  const lead = mix.products[0];
+
+  const startEdit = (e: Expense) => {
+    setEditingId(e.id);
+    setForm({
+      date: e.date, category_id: e.category_id, amount: String(e.amount),
+      vendor: e.vendor, payment_method: e.payment_method, notes: e.notes || '',
+    });
+    setError('');
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm(defaultDate(month)));
+  };
 
   const handleSave = () => {
-    const entry: CostEntry = {
-      id: `cost_${month}`,
-      month,
-      flour_cost: Number(flour) || 0,
-      gas_cost: Number(gas) || 0,
-      electricity_cost: Number(electricity) || 0,
-      labor_cost: Number(labor) || 0,
-      misc_cost: Number(misc) || 0,
-    };
-    saveCost(entry);
+    const amount = Number(form.amount);
+    if (!form.date) return setError('Please select a date');
+    if (!amount || amount <= 0) return setError('Amount must be positive');
+    if (amount > 1000000) return setError('Amount too large');
+
+    const existing = expenses.find(e => e.id === editingId);
+    try {
+      saveExpense({
+        id: existing?.id || crypto.randomUUID(),
+        date: form.date,
+        category_id: form.category_id,
+        amount: Math.round(amount * 100) / 100,
+        vendor: form.vendor.trim().slice(0, 60),
+        payment_method: form.payment_method,
+        notes: form.notes.trim().slice(0, 200),
+        created_at: existing?.created_at || new Date().toISOString(),
+      });
+    } catch (err) {
+      return setError(err instanceof Error ? err.message : String(err));
+    }
+    setError('');
+    refresh();
+    resetForm();
     setSaved(true);
     setTimeout(() => setSaved(false), 2000);
   };
 
-  const costItems = [
-    { label: 'Flour', value: flour, set: setFlour, icon: '🌾' },
-    { label: 'Gas / Fuel', value: gas, set: setGas, icon: '🔥' },
-    { label: 'Electricity', value: electricity, set: setElectricity, icon: '⚡' },
-    { label: 'Labor', value: labor, set: setLabor, icon: '👷' },
-    { label: 'Miscellaneous', value: misc, set: setMisc, icon: '📦' },
-  ];
+  const handleDelete = (e: Expense) => {
+    if (!confirm(`Delete ${symbol} ${e.amount.toFixed(2)} expense on ${e.date}?`)) return;
+    try {
+      deleteExpense(e.id);
+    } catch (err) {
+      return setError(err instanceof Error ? err.message : String(err));
+    }
+    refresh();
+  };
+
+  const addCategory = () => {
+    const name = newCategory.trim();
+    if (!name) return;
+    const existing = categories.find(c => c.name.toLowerCase() === name.toLowerCase());
+    const id = existing?.id || crypto.randomUUID();
+    if (!existing) saveExpenseCategory({ id, name, behavior: newBehavior, archived: false });
+    setCategories(getExpenseCategories());
+    setForm({ ...form, category_id: id });
+    setNewCategory('');
+  };
+
+  const toggleBehavior = (c: ExpenseCategory) => {
+    saveExpenseCategory({ ...c, behavior: c.behavior === 'fixed' ? 'variable' : 'fixed' });
+    setCategories(getExpenseCategories());
+  };
+
+  const categoryName = (id: string) => getExpenseCategory(id)?.name || 'Uncategorised';
+
+  const byCategory = expenses.reduce((acc: Record<string, number>, e) => {
+    acc[e.category_id] = (acc[e.category_id] || 0) + e.amount;
+    return acc;
+  }, {});
+
+  const sorted = [...expenses].sort((a, b) => b.date.localeCompare(a.date) || b.created_at.localeCompare(a.created_at));
 
   return (
     <div className="px-4 py-4 space-y-4">
-      <p className="section-header">Cost Configuration</p>
+      <p className="section-header">Expense Ledger</p>
 
       {/* Month selector */}
       <div className="stat-card">
         <label className="section-header block mb-1.5">Month</label>
-        <input type="month" value={month} onChange={e => setMonth(e.target.value)} className="form-input" max={currentMonth} />
+        <input type="month" value={month} onChange={e => selectMonth(e.target.value)} className="form-input" max={currentMonth} />
+        <div className="flex items-center justify-between mt-3">
+          <span className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            {isClosed
+              ? `Closed ${period.closed_at?.slice(0, 10)} by ${period.closed_by} — sales and expenses are frozen`
+              : 'Period open — sales and expenses can be edited'}
+          </span>
+          <button onClick={togglePeriod} className="btn-secondary flex items-center gap-1.5 text-xs">
+            {isClosed ? <Unlock className="w-3.5 h-3.5" /> : <Lock className="w-3.5 h-3.5" />}
+            {isClosed ? 'Reopen' : 'Close Month'}
+          </button>
+        </div>
       </div>
 
-      {/* Cost inputs */}
+      {/* Expense form */}
       <div className="stat-card space-y-3">
-        <p className="section-header">Operating Costs</p>
-        {costItems.map(({ label, value, set, icon }) => (
-          <div key={label} className="flex items-center gap-3">
-            <span className="text-xl w-7 flex-shrink-0">{icon}</span>
-            <div className="flex-1">
-              <label className="text-xs block mb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>{label} ({symbol})</label>
-              <input
-                type="number" min="0" step="0.01" value={value}
-                onChange={e => set(e.target.value)}
-                placeholder="0.00" className="form-input"
-              />
-            </div>
+        <p className="section-header">{editingId ? 'Edit Expense' : 'New Expense'}</p>
+
+        {error && (
+          <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+            {error}
           </div>
-        ))}
+        )}
 
-        <div className="pt-3 border-t flex justify-between items-center" style={{ borderColor: 'hsl(var(--border))' }}>
-          <span className="font-medium" style={{ color: 'hsl(var(--foreground))' }}>Total Cost</span>
-          <span className="metric-value text-lg">{symbol} {total.toFixed(2)}</span>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Date</label>
+            <input type="date" value={form.date} onChange={e => setForm({ ...form, date: e.target.value })} className="form-input" max={todayISO()} disabled={isClosed} />
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Amount ({symbol})</label>
+            <input type="number" min="0.01" step="0.01" value={form.amount} onChange={e => setForm({ ...form, amount: e.target.value })} placeholder="0.00" className="form-input" disabled={isClosed} />
+          </div>
+        </div>
+
+        <div>
+          <label className="section-header block mb-1.5">Category</label>
+          <select value={form.category_id} onChange={e => setForm({ ...form, category_id: e.target.value })} className="form-input" disabled={isClosed}>
+            {categories.filter(c => !c.archived || c.id === form.category_id).map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <div className="flex gap-2 mt-2">
+            <input value={newCategory} onChange={e => setNewCategory(e.target.value)} placeholder="New category, e.g. Packaging" className="form-input" maxLength={40} />
+            <select value={newBehavior} onChange={e => setNewBehavior(e.target.value as CostBehavior)} className="form-input" style={{ width: 'auto' }}>
+              <option value="fixed">Fixed</option>
+              <option value="variable">Variable</option>
+            </select>
+            <button onClick={addCategory} className="btn-secondary flex items-center gap-1.5 text-xs">
+              <PlusCircle className="w-3.5 h-3.5" />
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Vendor</label>
+            <input value={form.vendor} onChange={e => setForm({ ...form, vendor: e.target.value })} placeholder="Supplier" className="form-input" maxLength={60} disabled={isClosed} />
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Paid By</label>
+            <select value={form.payment_method} onChange={e => setForm({ ...form, payment_method: e.target.value as PaymentMethod })} className="form-input" disabled={isClosed}>
+              {PAYMENT_METHODS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="section-header block mb-1.5">Notes</label>
+          <textarea value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} rows={2} maxLength={200} className="form-input resize-none" disabled={isClosed} />
         </div>
 
         {saved && (
           <div className="text-sm rounded-lg px-3 py-2 text-center" style={{ background: 'hsl(var(--success) / 0.1)', color: 'hsl(var(--success))' }}>
-            ✓ Costs saved
+            ✓ Expense saved
           </div>
         )}
 
-        <button onClick={handleSave} className="btn-primary w-full flex items-center justify-center gap-2">
-          <SaveIcon className="w-4 h-4" />
-          Save Costs for {month}
-        </button>
+        <div className="flex gap-2">
+          <button onClick={handleSave} disabled={isClosed} className="btn-primary flex-1 flex items-center justify-center gap-2" style={{ opacity: isClosed ? 0.5 : 1 }}>
+            {editingId ? <SaveIcon className="w-4 h-4" /> : <PlusCircle className="w-4 h-4" />}
+            {editingId ? 'Save Changes' : 'Add Expense'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="btn-secondary">Cancel</button>
+          )}
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <div className="stat-card">
+        <div className="flex justify-between items-center mb-2">
+          <p className="section-header">{expenses.length} expense{expenses.length === 1 ? '' : 's'} in {month}</p>
+          <span className="metric-value text-lg">{symbol} {total.toFixed(2)}</span>
+        </div>
+        {sorted.length === 0 ? (
+          <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>No expenses recorded for this month.</p>
+        ) : sorted.map(e => (
+          <div key={e.id} className="flex items-center justify-between py-2 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))' }}>
+            <div>
+              <p className="text-sm font-medium" style={{ color: 'hsl(var(--foreground))' }}>
+                {categoryName(e.category_id)}{e.vendor ? ` · ${e.vendor}` : ''}
+                <span className={behaviorOf(e.category_id) === 'variable' ? 'badge-warning ml-2' : 'badge-success ml-2'}>{behaviorOf(e.category_id)}</span>
+              </p>
+              <p className="text-xs mt-0.5" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                {e.date} · {PAYMENT_METHODS.find(p => p.id === e.payment_method)?.label}{e.notes ? ` · ${e.notes}` : ''}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <span className="font-mono text-sm mr-1" style={{ color: 'hsl(var(--foreground))' }}>{symbol} {e.amount.toFixed(2)}</span>
+              {!isClosed && (
+                <>
+                  <button onClick={() => startEdit(e)} className="p-1 rounded" title="Edit" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleDelete(e)} className="p-1 rounded" title="Delete" style={{ color: 'hsl(var(--danger))' }}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
       </div>
 
       {/* Analysis */}
@@ -118,8 +310,10 @@ export default function Costs() {
 
           {[
             { label: 'Revenue This Month', value: `${symbol} ${monthRevenue.toFixed(2)}`, highlight: true },
-            { label: 'Total Costs', value: `${symbol} ${total.toFixed(2)}` },
-            { label: 'Break-Even Point', value: `${symbol} ${analysis.break_even.toFixed(2)}` },
+            { label: 'Fixed Costs', value: `${symbol} ${fixedCost.toFixed(2)}` },
+            { label: 'Variable Costs', value: `${symbol} ${variableCost.toFixed(2)}` },
+            { label: 'Contribution Margin', value: `${(analysis.contribution_margin * 100).toFixed(1)}%` },
+            { label: 'Break-Even Revenue', value: reachable ? `${symbol} ${analysis.break_even.toFixed(2)}` : 'n/a' },
             { label: 'Net Profit / Loss', value: `${symbol} ${analysis.profit.toFixed(2)}`, highlight: true },
             { label: 'Profit Margin', value: `${margin.toFixed(1)}%` },
           ].map(({ label, value, highlight }) => (
@@ -138,29 +332,94 @@ export default function Costs() {
               <div
                 className="h-3 rounded-full transition-all duration-700"
                 style={{
-                  width: `${Math.min(100, total > 0 ? (monthRevenue / total) * 100 : 0)}%`,
-                  background: monthRevenue >= total ? 'hsl(var(--success))' : 'hsl(var(--danger))',
+                  width: `${Math.min(100, reachable && analysis.break_even > 0 ? (monthRevenue / analysis.break_even) * 100 : 0)}%`,
+                  background: reachable && monthRevenue >= analysis.break_even ? 'hsl(var(--success))' : 'hsl(var(--danger))',
                 }}
               />
             </div>
-            <p className="text-xs mt-1 text-right" style={{ color: monthRevenue >= total ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>
-              {total > 0 ? ((monthRevenue / total) * 100).toFixed(0) : 0}% of break-even
+            <p className="text-xs mt-1 text-right" style={{ color: reachable && monthRevenue >= analysis.break_even ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>
+              {reachable && analysis.break_even > 0 ? ((monthRevenue / analysis.break_even) * 100).toFixed(0) : 0}% of break-even
             </p>
           </div>
         </div>
       )}
 
-      {/* Breakdown donut-style */}
+      {/* Contribution margin by product */}
+      {fixedCost > 0 && mix.products.length > 0 && (
+        <div className="stat-card space-y-3">
+          <p className="section-header flex items-center gap-2">
+            <Target className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+            Contribution Margin by Product
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  <th className="text-left pb-1.5 font-medium">Product</th>
+                  <th className="text-right pb-1.5 font-medium">Price</th>
+                  <th className="text-right pb-1.5 font-medium">Var / unit</th>
+                  <th className="text-right pb-1.5 font-medium">CM / unit</th>
+                  <th className="text-right pb-1.5 font-medium">B/E units</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                {mix.products.map(p => (
+                  <tr key={p.id} className="border-t" style={{ borderColor: 'hsl(var(--border))' }}>
+                    <td className="py-1.5 font-sans">{p.name}</td>
+                    <td className="text-right">{p.unit_price.toFixed(2)}</td>
+                    <td className="text-right">{p.unit_variable_cost.toFixed(2)}</td>
+                    <td className="text-right" style={{ color: p.unit_contribution > 0 ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>{p.unit_contribution.toFixed(2)}</td>
+                    <td className="text-right">{Number.isFinite(p.break_even_units) ? Math.ceil(p.break_even_units) : '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--muted))', color: 'hsl(var(--foreground))' }}>
+            {!Number.isFinite(unitsShort)
+              ? 'Variable costs exceed selling prices at this mix — break-even cannot be reached by selling more.'
+              : unitsShort === 0
+                ? `Break-even reached: ${unitsSold} units sold against ${Math.ceil(mix.break_even_units)} needed.`
+                : <>
+                    Sell <span className="metric-value">{unitsShort}</span> more units at the current mix to break even
+                    {lead && lead.unit_contribution > 0 && (
+                      <> — or {Math.ceil(remainingFixed / lead.unit_contribution)} more {lead.name} alone</>
+                    )}.
+                  </>}
+          </div>
+          <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            Products with a recipe carry their own COGS; other variable costs are spread over the remaining units sold this month.
+          </p>
+        </div>
+      )}
+
+      {/* Cost behaviour per category */}
+      <div className="stat-card">
+        <p className="section-header mb-2">Cost Categories</p>
+        {categories.filter(c => !c.archived).map(c => (
+          <div key={c.id} className="flex items-center justify-between py-1.5 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))' }}>
+            <span className="text-sm" style={{ color: 'hsl(var(--foreground))' }}>{c.name}</span>
+            <button onClick={() => toggleBehavior(c)} className={c.behavior === 'variable' ? 'badge-warning' : 'badge-success'} title="Toggle fixed / variable">
+              {c.behavior}
+            </button>
+          </div>
+        ))}
+        <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          Fixed costs are monthly overheads; variable costs rise with every unit produced.
+        </p>
+      </div>
+
+      {/* Breakdown by category */}
       {total > 0 && (
         <div className="stat-card">
           <p className="section-header mb-3">Cost Breakdown</p>
-          {costItems.map(({ label, value, icon }) => {
-            const pct = total > 0 ? ((Number(value) || 0) / total) * 100 : 0;
+          {Object.entries(byCategory).sort(([, a], [, b]) => b - a).map(([id, value]) => {
+            const pct = (value / total) * 100;
             return (
-              <div key={label} className="mb-2.5">
+              <div key={id} className="mb-2.5">
                 <div className="flex justify-between text-xs mb-1">
-                  <span style={{ color: 'hsl(var(--foreground))' }}>{icon} {label}</span>
-                  <span className="font-mono" style={{ color: 'hsl(var(--muted-foreground))' }}>{pct.toFixed(1)}% · {symbol} {Number(value || 0).toFixed(2)}</span>
+                  <span style={{ color: 'hsl(var(--foreground))' }}>{categoryName(id)}</span>
+                  <span className="font-mono" style={{ color: 'hsl(var(--muted-foreground))' }}>{pct.toFixed(1)}% · {symbol} {value.toFixed(2)}</span>
                 </div>
                 <div className="h-1.5 rounded-full" style={{ background: 'hsl(var(--border))' }}>
                   <div className="h-1.5 rounded-full transition-all" style={{ width: `${pct}%`, background: 'hsl(var(--cyan))' }} />
@@ -1,18 +1,37 @@
-import { useMemo, useEffect, useState } from 'react';
-import { getOrders, getCostForMonth, getConfig, todayISO, monthISO, daysAgoISO } from '@/utils/storage';
-import { loadRevenueEntries } from '../services/firestoreService';
+import { useMemo } from 'react';
+import { monthlyCostSplit, getConfig, getEvents, getAnomalyLabels, getItem, getActiveItems, getProductionLogs, todayISO, monthISO, daysAgoISO } from '@/utils/storage';
+import { useOrders } from '@/hooks/use-orders';
+import { basketMetrics } from '@/utils/transactions';
+import { productGrossMargins, itemUnitCogs } from '@/utils/costing';
+import { wasteByDay, wasteTotals } from '@/utils/production';
+import { addDays, calendarFromConfig, dailySeries, nextTradingDays, seasonLength, tradingDays } from '@/utils/timeseries';
+import { demandForecast } from '@/utils/demand';
+import { eventRegressors, eventsOn } from '@/utils/events';
+import { excludeLabelled } from '@/utils/anomalies';
+import { lowStock } from '@/services/inventoryService';
 import {
   mean, stdDev, linearRegression, coefficientOfVariation,
-  compoundGrowthRate, enterpriseHealthIndex, errorMetrics,
-  movingAverage, exponentialMovingAverage, detectAnomalies,
-  generateForecast, sensitivitySimulation
+  compoundGrowthRate, enterpriseHealthIndex,
+  movingAverage, robustAnomalies,
+  generateForecast, sensitivitySimulation, breakEvenAnalysis, walkForwardBacktest, quantileIntervals,
+  type ForecastModelKey
 } from '@/utils/math';
 import { TrendingUp, TrendingDown, Minus, AlertTriangle, CheckCircle, Activity } from 'lucide-react';
 import {
   ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid,
-  Tooltip, ReferenceLine, AreaChart, Area, BarChart, Bar
+  Tooltip, ReferenceLine, AreaChart, Area, BarChart, Bar, ComposedChart
 } from 'recharts';
-import { get } from 'http';
+
+const FORECAST_BANDS = [50, 80, 95];
+
+const MODEL_LABELS: Record<ForecastModelKey, string> = {
+  linear: 'Linear regression',
+  ma: 'Moving average',
+  ema: 'EMA',
+  wma: 'WMA',
+  hw: 'Holt-Winters',
+  arima: 'Seasonal ARIMA',
+};
 
 function MetricCard({ label, value, sub, trend }: { label: string; value: string; sub?: string; trend?: 'up' | 'down' | 'neutral' }) {
   const TrendIcon = trend === 'up' ? TrendingUp : trend === 'down' ? TrendingDown : Minus;
@@ -84,32 +103,7 @@ const CUSTOM_TOOLTIP_STYLE = {
 };
 
 export default function Dashboard() {
-  const [cloudOrders, setCloudOrders] = useState<any[]>([]);
-
-  useEffect(() => {
-
-    const loadCloud = async () => {
-
-      const data = await loadRevenueEntries();
-
-      if (data.length > 0) {
-
-        setCloudOrders(data);
-
-      }
-
-    };
-
-    loadCloud();
-
-  }, []);
-
-  const localOrders = getOrders();
-
-  const orders =
-    cloudOrders.length > 0
-      ? cloudOrders
-      : localOrders;
+  const orders = useOrders();
   const config = getConfig();
   const symbol = config.currency_symbol;
   const today = todayISO();
@@ -125,20 +119,27 @@ export default function Dashboard() {
   const todayRev = todayOrders.reduce((s, o) => s + o.total_revenue, 0);
   const weekRev = weekOrders.reduce((s, o) => s + o.total_revenue, 0);
   const monthRev = monthOrders.reduce((s, o) => s + o.total_revenue, 0);
-
-  // Daily timeseries (last 30 days)
-  const dailyMap: Record<string, number> = {};
-  orders.filter(o => o.date >= week30).forEach(o => {
-    dailyMap[o.date] = (dailyMap[o.date] || 0) + o.total_revenue;
-  });
-  const dailyDates = Object.keys(dailyMap).sort();
-  const dailyRevenues = dailyDates.map(d => dailyMap[d]);
+  const weekBaskets = basketMetrics(weekOrders);
+  const monthBaskets = basketMetrics(monthOrders);
+
+  // Daily timeseries (last 30 days to yesterday, trading days only; today is still trading)
+  const calendar = useMemo(() => calendarFromConfig(getConfig()), []);
+  const events = useMemo(() => getEvents(), []);
+  const labels = useMemo(() => getAnomalyLabels(), []);
+  const season = seasonLength(calendar);
+  const { dailyDates, dailyRevenues } = useMemo(() => {
+    const points = tradingDays(dailySeries(orders, calendar, { start: week30, end: addDays(today, -1) }), calendar);
+    return { dailyDates: points.map(p => p.date), dailyRevenues: points.map(p => p.revenue) };
+  }, [orders, week30, today, calendar]);
+  // Labelled anomalies are imputed before any model sees the series
+  const fitRevenues = useMemo(
+    () => excludeLabelled(dailyDates, dailyRevenues, labels, undefined, season),
+    [dailyDates, dailyRevenues, labels, season]
+  );
 
   // Costs
-  const costEntry = getCostForMonth(month);
-  const totalCost = costEntry
-    ? costEntry.flour_cost + costEntry.gas_cost + costEntry.electricity_cost + costEntry.labor_cost + costEntry.misc_cost
-    : 0;
+  const costSplit = monthlyCostSplit(month);
+  const totalCost = costSplit.fixed + costSplit.variable;
   const profit = monthRev - totalCost;
   const profitMarginPct = monthRev > 0 ? (profit / monthRev) * 100 : 0;
   const avgDaily = dailyRevenues.length > 0 ? mean(dailyRevenues) : 0;
@@ -148,11 +149,9 @@ export default function Dashboard() {
   const cv = coefficientOfVariation(dailyRevenues);
   const maPred = dailyRevenues.length >= 7 ? (movingAverage(dailyRevenues, 7).filter(v => !isNaN(v)).at(-1) || 0) : avgDaily;
 
-  // MAPE for health
-  const emaPred = exponentialMovingAverage(dailyRevenues, 0.3);
-  const mapeMetric = dailyRevenues.length >= 2
-    ? errorMetrics(dailyRevenues.slice(1), emaPred.slice(0, -1)).mape
-    : 20;
+  // MAPE for health: the best model's out-of-sample error, not an in-sample fit
+  const best = useMemo(() => walkForwardBacktest(fitRevenues, { horizon: 7, season })[0], [fitRevenues, season]);
+  const mapeMetric = best ? best.overall.mape : 20;
 
   const cagr = dailyRevenues.length >= 2
     ? compoundGrowthRate(dailyRevenues[0] || 1, dailyRevenues[dailyRevenues.length - 1] || 1, dailyRevenues.length)
@@ -166,11 +165,26 @@ export default function Dashboard() {
   });
 
   // Anomalies
-  const anomalies = dailyRevenues.length >= 3 ? detectAnomalies(dailyDates, dailyRevenues) : [];
-  const anomalyCount = anomalies.filter(a => a.is_anomaly).length;
-
-  // 7-day forecast
-  const forecast = dailyRevenues.length >= 7 ? generateForecast(dailyRevenues, 7) : [];
+  const anomalies = dailyRevenues.length >= 3
+    ? robustAnomalies(dailyDates, dailyRevenues, { method: config.anomaly_method, threshold: config.anomaly_threshold, season })
+    : [];
+  const labelled = new Set(labels.filter(l => !l.item_id).map(l => l.date));
+  const anomalyCount = anomalies.filter(a => a.is_anomaly && !labelled.has(a.date)).length;
+
+  // 7-day forecast from whichever model backtests best on held-out days
+  const forecastDates = useMemo(() => nextTradingDays(addDays(today, 1), 7, calendar), [today, calendar]);
+  const forecast = useMemo(
+    () => fitRevenues.length >= 7
+      ? generateForecast(fitRevenues, 7, 7, 0.3, season, eventRegressors(events, dailyDates, forecastDates))
+      : [],
+    [fitRevenues, season, events, dailyDates, forecastDates]
+  );
+  const upcomingEvents = [...new Set(forecastDates.flatMap(d => eventsOn(events, d).map(e => e.name)))];
+  const bestModel: ForecastModelKey = best?.model || 'linear';
+  const demand = useMemo(
+    () => demandForecast(orders, getActiveItems(), addDays(today, 1), 7, 56, config.forecasting_window, config.ema_alpha, calendar, events, labels, today),
+    [orders, today, config.forecasting_window, config.ema_alpha, calendar, events, labels]
+  );
 
   // Chart data
   const chartData = dailyDates.map((date, i) => ({
@@ -179,26 +193,32 @@ export default function Dashboard() {
     ma: movingAverage(dailyRevenues, Math.min(7, dailyRevenues.length))[i] || null,
   }));
 
-  const forecastChartData = forecast.map((f, i) => {
-    const d = new Date();
-    d.setDate(d.getDate() + i + 1);
-    return {
-      date: d.toISOString().slice(5, 10),
-      linear: Math.max(0, f.linear),
-      lower: Math.max(0, f.lower),
-      upper: Math.max(0, f.upper),
-    };
+  // Bands from the best model's backtest errors; the trend's 95% interval until there are any
+  const point = forecast.map(f => f[bestModel]);
+  const bands = best
+    ? quantileIntervals(point, best.residuals, FORECAST_BANDS)
+    : forecast.map(f => [{ level: 95, lower: f.lower, upper: f.upper }]);
+  const forecastChartData = forecast.map((_, i) => {
+    const row: Record<string, string | number | number[]> = { date: forecastDates[i].slice(5), forecast: Math.max(0, point[i]) };
+    bands[i].forEach(b => { row[`p${b.level}`] = [Math.max(0, b.lower), Math.max(0, b.upper)]; });
+    return row;
   });
 
   // Item breakdown
-  const itemMap: Record<string, number> = {};
+  const itemMap: Record<string, { name: string; revenue: number }> = {};
   monthOrders.forEach(o => {
-    itemMap[o.item_name] = (itemMap[o.item_name] || 0) + o.total_revenue;
+    if (!itemMap[o.item_id]) itemMap[o.item_id] = { name: getItem(o.item_id)?.name || o.item_name, revenue: 0 };
+    itemMap[o.item_id].revenue += o.total_revenue;
   });
-  const itemData = Object.entries(itemMap).map(([name, revenue]) => ({ name: name.split(' ').pop(), revenue }));
+  const itemData = Object.values(itemMap).sort((a, b) => b.revenue - a.revenue);
+  const margins = productGrossMargins(monthOrders);
+  const costedMargins = margins.filter(m => m.costed);
+  const lowIngredients = lowStock();
+  const waste = wasteTotals(wasteByDay(getProductionLogs().filter(l => l.date.startsWith(month)), monthOrders, itemUnitCogs));
 
   const trendDir = reg && reg.slope > 0.5 ? 'up' : reg && reg.slope < -0.5 ? 'down' : 'neutral';
-  const breakEven = totalCost > 0 ? totalCost : null;
+  const beRevenue = breakEvenAnalysis(monthRev, costSplit.fixed, costSplit.variable).break_even;
+  const breakEven = totalCost > 0 && Number.isFinite(beRevenue) ? beRevenue : null;
 
   return (
     <div className="px-4 py-4 space-y-4">
@@ -207,7 +227,7 @@ export default function Dashboard() {
         <p className="section-header mb-3">Revenue Overview</p>
         <div className="grid grid-cols-2 gap-3">
           <MetricCard label="Today" value={`${symbol} ${todayRev.toFixed(2)}`} trend={todayRev > avgDaily ? 'up' : 'down'} sub={todayRev > avgDaily ? 'Above avg' : 'Below avg'} />
-          <MetricCard label="This Week" value={`${symbol} ${weekRev.toFixed(2)}`} trend="neutral" sub={`${weekOrders.length} orders`} />
+          <MetricCard label="This Week" value={`${symbol} ${weekRev.toFixed(2)}`} trend="neutral" sub={`${weekBaskets.transactions} sales`} />
           <MetricCard label="This Month" value={`${symbol} ${monthRev.toFixed(2)}`} trend={trendDir} sub={`${profitMarginPct.toFixed(1)}% margin`} />
           <MetricCard label="Net Profit" value={`${symbol} ${profit.toFixed(2)}`} trend={profit >= 0 ? 'up' : 'down'} sub={totalCost > 0 ? `Cost: ${symbol} ${totalCost.toFixed(0)}` : 'Set costs'} />
         </div>
@@ -229,12 +249,36 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {monthBaskets.transactions > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="stat-card text-center py-3">
+            <p className="section-header text-xs mb-1">Sales (Month)</p>
+            <p className="metric-value text-base">{monthBaskets.transactions}</p>
+          </div>
+          <div className="stat-card text-center py-3">
+            <p className="section-header text-xs mb-1">Avg Basket</p>
+            <p className="metric-value text-base">{symbol} {monthBaskets.avg_basket_value.toFixed(2)}</p>
+            <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>{monthBaskets.avg_basket_units.toFixed(1)} pcs</p>
+          </div>
+        </div>
+      )}
+
       {/* Anomaly banner */}
       {anomalyCount > 0 && (
         <div className="flex items-center gap-2 rounded-lg px-3 py-2.5" style={{ background: 'hsl(var(--warning) / 0.1)', border: '1px solid hsl(var(--warning) / 0.3)' }}>
           <AlertTriangle className="w-4 h-4 flex-shrink-0" style={{ color: 'hsl(var(--warning))' }} />
           <p className="text-xs" style={{ color: 'hsl(var(--warning))' }}>
-            {anomalyCount} revenue anomal{anomalyCount === 1 ? 'y' : 'ies'} detected in last 30 days
+            {anomalyCount} unlabelled revenue anomal{anomalyCount === 1 ? 'y' : 'ies'} in last 30 days · label causes in Analytics
+          </p>
+        </div>
+      )}
+
+      {/* Low-stock banner */}
+      {lowIngredients.length > 0 && (
+        <div className="flex items-center gap-2 rounded-lg px-3 py-2.5" style={{ background: 'hsl(var(--warning) / 0.1)', border: '1px solid hsl(var(--warning) / 0.3)' }}>
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" style={{ color: 'hsl(var(--warning))' }} />
+          <p className="text-xs" style={{ color: 'hsl(var(--warning))' }}>
+            Low stock: {lowIngredients.map(l => `${l.ingredient.name} (${Math.max(0, l.level).toFixed(0)} ${l.ingredient.unit})`).join(', ')}
           </p>
         </div>
       )}
@@ -287,26 +331,54 @@ export default function Dashboard() {
       {/* Forecast Chart */}
       {forecastChartData.length > 0 && (
         <div className="stat-card">
-          <p className="section-header mb-3">7-Day Forecast (95% CI)</p>
+          <p className="section-header mb-3">7-Day Forecast (50 / 80 / 95%)</p>
           <ResponsiveContainer width="100%" height={140}>
-            <AreaChart data={forecastChartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
-              <defs>
-                <linearGradient id="forecastGrad" x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor="hsl(200,80%,40%)" stopOpacity={0.25} />
-                  <stop offset="95%" stopColor="hsl(200,80%,40%)" stopOpacity={0} />
-                </linearGradient>
-              </defs>
+            <ComposedChart data={forecastChartData} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
               <XAxis dataKey="date" tick={{ fontSize: 10, fill: 'hsl(215,12%,48%)' }} />
               <YAxis tick={{ fontSize: 10, fill: 'hsl(215,12%,48%)' }} />
-              <Tooltip contentStyle={CUSTOM_TOOLTIP_STYLE} />
-              <Area type="monotone" dataKey="upper" stroke="none" fill="url(#forecastGrad)" />
-              <Area type="monotone" dataKey="lower" stroke="none" fill="hsl(220,18%,11%)" />
-              <Line type="monotone" dataKey="linear" stroke="hsl(200,80%,60%)" strokeWidth={2} dot={false} />
-            </AreaChart>
+              <Tooltip
+                contentStyle={CUSTOM_TOOLTIP_STYLE}
+                formatter={(v: number | number[]) => (Array.isArray(v) ? `${v[0].toFixed(0)} – ${v[1].toFixed(0)}` : v.toFixed(2))}
+              />
+              {/* Widest first; overlapping fills darken the inner bands */}
+              {FORECAST_BANDS.slice().reverse().map(level => (
+                <Area key={level} type="monotone" dataKey={`p${level}`} stroke="none" fill="hsl(200,80%,40%)" fillOpacity={0.2} name={`${level}%`} />
+              ))}
+              <Line type="monotone" dataKey="forecast" stroke="hsl(200,80%,60%)" strokeWidth={2} dot={false} name="Forecast" />
+            </ComposedChart>
           </ResponsiveContainer>
           <p className="text-xs mt-1" style={{ color: 'hsl(var(--muted-foreground))' }}>
-            Next 7 days · Linear regression · Shaded = 95% confidence interval
+            Next 7 trading days · {MODEL_LABELS[bestModel]}{best ? ` (lowest backtest MAE, ${symbol} ${best.overall.mae.toFixed(2)})` : ''} · {best ? 'Bands = quantiles of backtest errors' : 'Shaded = 95% trend interval'}
+          </p>
+          {upcomingEvents.length > 0 && (
+            <p className="text-xs mt-1" style={{ color: 'hsl(var(--cyan))' }}>
+              Includes event effects: {upcomingEvents.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Unit demand forecast */}
+      {demand.products.length > 0 && (
+        <div className="stat-card">
+          <p className="section-header mb-3">7-Day Demand (pcs × price)</p>
+          {demand.products.map(p => (
+            <div key={p.item_id} className="flex items-center justify-between py-1.5 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))' }}>
+              <div>
+                <p className="text-sm" style={{ color: 'hsl(var(--foreground))' }}>{p.item_name}</p>
+                <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  ~{Math.round(p.units[0])} on {demand.dates[0].slice(5)} · @ {symbol} {p.unit_price.toFixed(2)}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-mono text-sm" style={{ color: 'hsl(var(--foreground))' }}>{Math.round(p.total_units)} pcs</p>
+                <p className="text-xs font-mono" style={{ color: 'hsl(var(--muted-foreground))' }}>{symbol} {p.total_revenue.toFixed(2)}</p>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            Expected revenue {symbol} {demand.revenue.reduce((s, r) => s + r, 0).toFixed(2)} over the next 7 trading days
           </p>
         </div>
       )}
@@ -315,11 +387,11 @@ export default function Dashboard() {
       {itemData.length > 0 && (
         <div className="stat-card">
           <p className="section-header mb-3">Product Revenue Share (Month)</p>
-          <ResponsiveContainer width="100%" height={120}>
+          <ResponsiveContainer width="100%" height={Math.max(120, itemData.length * 28)}>
             <BarChart data={itemData} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(220,15%,18%)" />
               <XAxis type="number" tick={{ fontSize: 10, fill: 'hsl(215,12%,48%)' }} />
-              <YAxis type="category" dataKey="name" tick={{ fontSize: 10, fill: 'hsl(215,12%,48%)' }} width={60} />
+              <YAxis type="category" dataKey="name" tick={{ fontSize: 10, fill: 'hsl(215,12%,48%)' }} width={80} />
               <Tooltip contentStyle={CUSTOM_TOOLTIP_STYLE} formatter={(v: number) => [`${symbol} ${v.toFixed(2)}`, 'Revenue']} />
               <Bar dataKey="revenue" fill="hsl(185,85%,48%)" radius={[0, 4, 4, 0]} />
             </BarChart>
@@ -327,6 +399,57 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* Gross margin per product (recipe COGS) */}
+      {costedMargins.length > 0 && (
+        <div className="stat-card">
+          <p className="section-header mb-3">Gross Margin by Product (Month)</p>
+          {costedMargins.map(m => (
+            <div key={m.id} className="flex items-center justify-between py-1.5 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))' }}>
+              <div>
+                <p className="text-sm" style={{ color: 'hsl(var(--foreground))' }}>{getItem(m.id)?.name || m.name}</p>
+                <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  {symbol} {m.revenue.toFixed(2)} revenue · {symbol} {m.cogs.toFixed(2)} COGS
+                </p>
+              </div>
+              <span className="font-mono text-sm" style={{ color: m.gross_margin >= 0 ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>
+                {m.gross_margin.toFixed(1)}%
+              </span>
+            </div>
+          ))}
+          {costedMargins.length < margins.length && (
+            <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              {margins.length - costedMargins.length} product{margins.length - costedMargins.length === 1 ? '' : 's'} without a recipe not shown.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Waste (production log) */}
+      {waste.produced > 0 && (
+        <div className="stat-card">
+          <p className="section-header mb-3">Waste (Month)</p>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>Waste Rate</p>
+              <p className="font-mono text-base" style={{ color: waste.waste_rate > 10 ? 'hsl(var(--danger))' : waste.waste_rate > 5 ? 'hsl(var(--warning))' : 'hsl(var(--success))' }}>
+                {waste.waste_rate.toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>Waste Cost</p>
+              <p className="metric-value text-base">{symbol} {waste.waste_cost.toFixed(2)}</p>
+            </div>
+            <div>
+              <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>Given Away</p>
+              <p className="metric-value text-base">{waste.given_away}</p>
+            </div>
+          </div>
+          <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            {waste.wasted} wasted of {waste.produced} produced · {waste.sold} sold on logged days
+          </p>
+        </div>
+      )}
+
       {/* Enterprise Health */}
       <HealthGauge score={health.score} components={health.components} />
 
@@ -1,22 +1,41 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Layout, { type Page } from "@/components/Layout";
 import Dashboard from "@/pages/Dashboard";
 import SalesEntry from "@/pages/SalesEntry";
 import Analytics from "@/pages/Analytics";
 import Costs from "@/pages/Costs";
 import Reports from "@/pages/Reports";
+import Products from "@/pages/Products";
+import Recipes from "@/pages/Recipes";
+import Inventory from "@/pages/Inventory";
+import Prep from "@/pages/Prep";
+import Trash from "@/pages/Trash";
+import Periods from "@/pages/Periods";
+import TradingCalendar from "@/pages/TradingCalendar";
 import { signOut } from "firebase/auth";
 import { auth } from "../firebase";
+import { startBackgroundSync } from "@/services/syncQueue";
+import { startTrashRetention } from "@/services/trashService";
 
 export default function Index() {
   const [page, setPage] = useState<Page>("dashboard");
 
+  useEffect(() => startBackgroundSync(), []);
+  useEffect(() => startTrashRetention(), []);
+
   const PAGE_MAP: Record<Page, React.ReactNode> = {
     dashboard: <Dashboard />,
     entry: <SalesEntry />,
     analytics: <Analytics />,
     costs: <Costs />,
     reports: <Reports />,
+    products: <Products />,
+    recipes: <Recipes />,
+    inventory: <Inventory />,
+    prep: <Prep />,
+    trash: <Trash />,
+    periods: <Periods />,
+    calendar: <TradingCalendar />,
   };
 
   const logout = async () => {
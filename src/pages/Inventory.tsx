@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import {
+  getIngredients, saveIngredient, getStockLevels, getStockMovements, getConfig, todayISO
+} from '@/utils/storage';
+import { recordPurchase, recordStockTake } from '@/services/inventoryService';
+import { useOrders } from '@/hooks/use-orders';
+import { PackagePlus, ClipboardCheck, AlertTriangle } from 'lucide-react';
+import type { Ingredient, StockMovementKind } from '@/types';
+
+const KIND_LABELS: Record<StockMovementKind, string> = {
+  purchase: 'Stock in',
+  sale: 'Sold',
+  adjustment: 'Stock-take',
+};
+
+const formatQty = (q: number) => (Math.abs(q) >= 100 ? q.toFixed(0) : q.toFixed(2));
+
+export default function Inventory() {
+  const config = getConfig();
+  const symbol = config.currency_symbol;
+  // Re-render when sales deplete stock
+  useOrders();
+
+  const [ingredients, setIngredients] = useState<Ingredient[]>(() => getIngredients().filter(i => !i.archived));
+  const [, setVersion] = useState(0);
+  const [purchase, setPurchase] = useState({ ingredient_id: ingredients[0]?.id || '', quantity: '', cost: '', date: todayISO(), notes: '' });
+  const [count, setCount] = useState({ ingredient_id: ingredients[0]?.id || '', counted: '', notes: '' });
+  const [error, setError] = useState('');
+  const [msg, setMsg] = useState('');
+
+  const levels = getStockLevels();
+  const movements = getStockMovements().slice(-20).reverse();
+  const nameOf = (id: string) => ingredients.find(i => i.id === id)?.name || id;
+  const unitOf = (id: string) => ingredients.find(i => i.id === id)?.unit || '';
+  const isLow = (i: Ingredient) => i.reorder_level !== undefined && (levels[i.id] || 0) <= i.reorder_level;
+  const lowCount = ingredients.filter(isLow).length;
+
+  const done = (text: string) => {
+    setError('');
+    setMsg(text);
+    setVersion(v => v + 1);
+    setTimeout(() => setMsg(''), 2500);
+  };
+
+  const handlePurchase = () => {
+    const quantity = Number(purchase.quantity);
+    const cost = Number(purchase.cost) || 0;
+    if (!purchase.ingredient_id) return setError('Select an ingredient');
+    if (!quantity || quantity <= 0) return setError('Quantity must be positive');
+    if (cost < 0) return setError('Cost cannot be negative');
+    recordPurchase({
+      ingredient_id: purchase.ingredient_id,
+      quantity,
+      cost,
+      date: purchase.date,
+      notes: purchase.notes.trim().slice(0, 200),
+    });
+    setIngredients(getIngredients().filter(i => !i.archived));
+    setPurchase({ ...purchase, quantity: '', cost: '', notes: '' });
+    done(`Added ${quantity} ${unitOf(purchase.ingredient_id)} of ${nameOf(purchase.ingredient_id)}`);
+  };
+
+  const handleCount = () => {
+    if (count.counted === '') return setError('Enter the counted quantity');
+    const counted = Number(count.counted);
+    if (counted < 0) return setError('Counted quantity cannot be negative');
+    const adj = recordStockTake(count.ingredient_id, counted, count.notes.trim().slice(0, 200) || undefined);
+    setCount({ ...count, counted: '', notes: '' });
+    done(adj
+      ? `${nameOf(count.ingredient_id)} adjusted by ${adj.quantity > 0 ? '+' : ''}${formatQty(adj.quantity)} ${unitOf(count.ingredient_id)}`
+      : `${nameOf(count.ingredient_id)} matches the ledger`);
+  };
+
+  const updateReorder = (ing: Ingredient, value: string) => {
+    const { reorder_level, ...rest } = ing;
+    saveIngredient(value === '' ? rest : { ...rest, reorder_level: Math.max(0, Number(value) || 0) });
+    setIngredients(getIngredients().filter(i => !i.archived));
+  };
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Ingredient Inventory</p>
+
+      {error && (
+        <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+          {error}
+        </div>
+      )}
+      {msg && (
+        <div className="text-sm rounded-lg px-3 py-2 text-center" style={{ background: 'hsl(var(--success) / 0.1)', color: 'hsl(var(--success))' }}>
+          ✓ {msg}
+        </div>
+      )}
+
+      {/* Levels */}
+      <div className="stat-card">
+        <div className="flex items-center justify-between mb-2">
+          <p className="section-header">Stock on Hand</p>
+          {lowCount > 0 && (
+            <span className="badge-warning flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {lowCount} low
+            </span>
+          )}
+        </div>
+        <div className="grid grid-cols-3 text-xs pb-1" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          <span>Ingredient</span>
+          <span className="text-right">On hand</span>
+          <span className="text-right">Reorder at</span>
+        </div>
+        {ingredients.map(ing => (
+          <div key={ing.id} className="grid grid-cols-3 items-center gap-2 py-1.5 border-t" style={{ borderColor: 'hsl(var(--border))' }}>
+            <span className="text-sm" style={{ color: 'hsl(var(--foreground))' }}>{ing.name}</span>
+            <span className="font-mono text-sm text-right" style={{ color: isLow(ing) ? 'hsl(var(--danger))' : 'hsl(var(--foreground))' }}>
+              {formatQty(levels[ing.id] || 0)} {ing.unit}
+            </span>
+            <input
+              type="number" min="0" step="any" defaultValue={ing.reorder_level ?? ''}
+              onBlur={e => updateReorder(ing, e.target.value)}
+              placeholder="—" className="form-input text-right"
+            />
+          </div>
+        ))}
+        <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          Sales deplete stock through each product's recipe (see Recipes &amp; COGS).
+        </p>
+      </div>
+
+      {/* Stock in */}
+      <div className="stat-card space-y-3">
+        <p className="section-header flex items-center gap-2">
+          <PackagePlus className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+          Stock In
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Ingredient</label>
+            <select value={purchase.ingredient_id} onChange={e => setPurchase({ ...purchase, ingredient_id: e.target.value })} className="form-input">
+              {ingredients.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Date</label>
+            <input type="date" value={purchase.date} onChange={e => setPurchase({ ...purchase, date: e.target.value })} className="form-input" max={todayISO()} />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Quantity ({unitOf(purchase.ingredient_id)})</label>
+            <input type="number" min="0" step="any" value={purchase.quantity} onChange={e => setPurchase({ ...purchase, quantity: e.target.value })} placeholder="0" className="form-input" />
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Total Cost ({symbol})</label>
+            <input type="number" min="0" step="0.01" value={purchase.cost} onChange={e => setPurchase({ ...purchase, cost: e.target.value })} placeholder="0.00" className="form-input" />
+          </div>
+        </div>
+        <input value={purchase.notes} onChange={e => setPurchase({ ...purchase, notes: e.target.value })} placeholder="Supplier / invoice (optional)" className="form-input" maxLength={200} />
+        <button onClick={handlePurchase} className="btn-primary w-full flex items-center justify-center gap-2">
+          <PackagePlus className="w-4 h-4" />
+          Record Stock In
+        </button>
+      </div>
+
+      {/* Stock take */}
+      <div className="stat-card space-y-3">
+        <p className="section-header flex items-center gap-2">
+          <ClipboardCheck className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+          Stock Take
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Ingredient</label>
+            <select value={count.ingredient_id} onChange={e => setCount({ ...count, ingredient_id: e.target.value })} className="form-input">
+              {ingredients.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Counted ({unitOf(count.ingredient_id)})</label>
+            <input type="number" min="0" step="any" value={count.counted} onChange={e => setCount({ ...count, counted: e.target.value })} placeholder={formatQty(levels[count.ingredient_id] || 0)} className="form-input" />
+          </div>
+        </div>
+        <input value={count.notes} onChange={e => setCount({ ...count, notes: e.target.value })} placeholder="Reason (optional)" className="form-input" maxLength={200} />
+        <button onClick={handleCount} className="btn-secondary w-full flex items-center justify-center gap-2">
+          <ClipboardCheck className="w-4 h-4" />
+          Save Count
+        </button>
+      </div>
+
+      {/* Movements */}
+      {movements.length > 0 && (
+        <div className="stat-card">
+          <p className="section-header mb-2">Recent Movements</p>
+          {movements.map(m => (
+            <div key={m.id} className="flex justify-between py-1.5 border-b last:border-0 text-xs" style={{ borderColor: 'hsl(var(--border))' }}>
+              <span style={{ color: 'hsl(var(--muted-foreground))' }}>
+                {m.date} · {KIND_LABELS[m.kind]} · {nameOf(m.ingredient_id)}{m.notes ? ` · ${m.notes}` : ''}
+              </span>
+              <span className="font-mono" style={{ color: m.quantity >= 0 ? 'hsl(var(--success))' : 'hsl(var(--foreground))' }}>
+                {m.quantity > 0 ? '+' : ''}{formatQty(m.quantity)} {unitOf(m.ingredient_id)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
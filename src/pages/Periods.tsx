@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { getConfig, getExpenses, monthlyCostSplit, getPeriods, getPeriod, monthISO } from '@/utils/storage';
+import { periodSnapshot } from '@/utils/periods';
+import { calendarFromConfig } from '@/utils/timeseries';
+import { closePeriod, reopenPeriod } from '@/services/periodService';
+import { useOrders } from '@/hooks/use-orders';
+import { Lock, Unlock, History } from 'lucide-react';
+import type { PeriodSnapshot } from '@/types';
+
+export default function Periods() {
+  const config = getConfig();
+  const symbol = config.currency_symbol;
+  const orders = useOrders();
+
+  const [month, setMonth] = useState(monthISO());
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+
+  const months = [...new Set([
+    monthISO(),
+    ...orders.map(o => o.date.slice(0, 7)),
+    ...getExpenses().map(e => e.date.slice(0, 7)),
+    ...getPeriods().map(p => p.month),
+  ])].sort().reverse();
+
+  const period = getPeriod(month);
+  const isClosed = period.status === 'closed';
+  const live = periodSnapshot(month, orders, monthlyCostSplit(month), calendarFromConfig(config));
+  const frozen = period.snapshot;
+
+  const handleClose = () => {
+    if (!confirm(`Close ${month}? Sales and costs in this month will be frozen.`)) return;
+    closePeriod(month);
+    setError('');
+  };
+
+  const handleReopen = () => {
+    try {
+      reopenPeriod(month, reason);
+    } catch (err) {
+      return setError(err instanceof Error ? err.message : String(err));
+    }
+    setReason('');
+    setError('');
+  };
+
+  const rows: { label: string; value: (s: PeriodSnapshot) => string }[] = [
+    { label: 'Sales Lines', value: s => String(s.orders) },
+    { label: 'Transactions', value: s => String(s.transactions) },
+    { label: 'Units Sold', value: s => String(s.units) },
+    { label: 'Revenue', value: s => `${symbol} ${s.revenue.toFixed(2)}` },
+    { label: 'Total Costs', value: s => `${symbol} ${s.cost.toFixed(2)}` },
+    { label: 'Break-Even Revenue', value: s => typeof s.break_even === 'number' ? `${symbol} ${s.break_even.toFixed(2)}` : 'n/a' },
+    { label: 'Net Profit / Loss', value: s => `${symbol} ${s.profit.toFixed(2)}` },
+    { label: 'Profit Margin', value: s => `${s.profit_margin.toFixed(1)}%` },
+    { label: 'Health Index', value: s => `${s.health_score} / 100` },
+  ];
+
+  // Sales or costs edited after the last close (only possible while reopened)
+  const drifted = frozen && rows.some(r => r.value(frozen) !== r.value(live));
+  const history = [...(period.history || [])].reverse();
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Month-End Close</p>
+
+      {/* Period selector */}
+      <div className="stat-card">
+        <label className="section-header block mb-1.5">Period</label>
+        <select value={month} onChange={e => { setMonth(e.target.value); setError(''); setReason(''); }} className="form-input">
+          {months.map(m => (
+            <option key={m} value={m}>{m}{getPeriod(m).status === 'closed' ? ' (closed)' : ''}</option>
+          ))}
+        </select>
+        <div className="flex items-center justify-between mt-3">
+          <span className={isClosed ? 'badge-success' : 'badge-warning'}>{isClosed ? 'Closed' : 'Open'}</span>
+          {isClosed && (
+            <span className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              {period.closed_at?.slice(0, 10)} by {period.closed_by}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+          {error}
+        </div>
+      )}
+
+      {/* Review: live figures against the frozen snapshot */}
+      <div className="stat-card">
+        <div className="flex justify-between mb-2">
+          <p className="section-header">Profit &amp; Loss</p>
+          <p className="section-header">{frozen ? 'Snapshot · Live' : 'Live'}</p>
+        </div>
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex justify-between py-1.5 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))' }}>
+            <span className="text-sm" style={{ color: 'hsl(var(--muted-foreground))' }}>{label}</span>
+            <span className="font-mono text-sm" style={{ color: 'hsl(var(--foreground))' }}>
+              {frozen && <>{value(frozen)} · </>}
+              <span className={frozen && value(frozen) !== value(live) ? 'metric-value' : ''}>{value(live)}</span>
+            </span>
+          </div>
+        ))}
+        {frozen && (
+          <p className="text-xs mt-2" style={{ color: drifted ? 'hsl(var(--warning))' : 'hsl(var(--muted-foreground))' }}>
+            Snapshot taken {new Date(frozen.generated_at).toLocaleString()}
+            {drifted ? ' — figures have changed since, close again to refresh it' : ''}
+          </p>
+        )}
+      </div>
+
+      {/* Close / reopen */}
+      {isClosed ? (
+        <div className="stat-card space-y-3">
+          <label className="section-header block">Reason for reopening</label>
+          <textarea value={reason} onChange={e => setReason(e.target.value)} rows={2} maxLength={200} placeholder="e.g. Late supplier invoice" className="form-input resize-none" />
+          <button onClick={handleReopen} className="btn-secondary w-full flex items-center justify-center gap-2">
+            <Unlock className="w-4 h-4" />
+            Reopen {month}
+          </button>
+        </div>
+      ) : (
+        <button onClick={handleClose} className="btn-primary w-full flex items-center justify-center gap-2">
+          <Lock className="w-4 h-4" />
+          Close {month}
+        </button>
+      )}
+
+      {/* Audit trail */}
+      {history.length > 0 && (
+        <div className="stat-card">
+          <p className="section-header flex items-center gap-2 mb-2">
+            <History className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+            Period History
+          </p>
+          <div className="space-y-2">
+            {history.map(ev => (
+              <div key={ev.at} className="rounded-lg px-3 py-2" style={{ background: 'hsl(var(--muted))' }}>
+                <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  {new Date(ev.at).toLocaleString()} · {ev.by}
+                </p>
+                <p className="text-sm" style={{ color: 'hsl(var(--foreground))' }}>
+                  {ev.action === 'closed' ? 'Closed' : 'Reopened'}{ev.reason ? ` — ${ev.reason}` : ''}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import {
+  getActiveItems, getRecipes, getIngredients, getStockLevels, getProductionPlans, saveProductionPlans,
+  getConfig, saveConfig, getEvents, getAnomalyLabels, todayISO
+} from '@/utils/storage';
+import { dailyUnitPoints, forecastUnits, planBatches, ingredientRequirements, planOutcomes } from '@/utils/production';
+import { addDays, calendarFromConfig, isClosedDay, seasonLength } from '@/utils/timeseries';
+import { eventRegressors, eventsOn } from '@/utils/events';
+import { excludeLabelled } from '@/utils/anomalies';
+import { useOrders } from '@/hooks/use-orders';
+import ProductionLogForm from '@/components/ProductionLogForm';
+import { ClipboardList, SaveIcon, AlertTriangle } from 'lucide-react';
+import type { ProductionPlan } from '@/types';
+
+const HISTORY_DAYS = 28;
+
+export default function Prep() {
+  const config = getConfig();
+  const orders = useOrders();
+  const today = todayISO();
+
+  const [date, setDate] = useState(addDays(today, 1));
+  const [safety, setSafety] = useState(String(config.prep_safety_pct));
+  const [msg, setMsg] = useState('');
+  const [, setVersion] = useState(0);
+
+  const safetyPct = Math.max(0, Number(safety) || 0);
+  const calendar = calendarFromConfig(config);
+  const season = seasonLength(calendar);
+  const closed = isClosedDay(date, calendar);
+  const events = getEvents();
+  const onDate = eventsOn(events, date);
+  const labels = getAnomalyLabels();
+  const recipes = getRecipes();
+  const ingredients = getIngredients();
+  const stock = getStockLevels();
+
+  const plans: ProductionPlan[] = getActiveItems().map(item => {
+    const recipe = recipes.find(r => r.item_id === item.id);
+    // History stops at yesterday; today is still trading
+    const history = dailyUnitPoints(orders, item.id, date < today ? date : today, HISTORY_DAYS, calendar);
+    const regressors = events.length > 0 ? eventRegressors(events, history.map(p => p.date), [date]) : undefined;
+    const units = excludeLabelled(history.map(p => p.date), history.map(p => p.units), labels, item.id, season);
+    const forecast = forecastUnits(units, config.forecasting_window, config.ema_alpha, season, regressors);
+    const { planned_units, batches } = planBatches(forecast, recipe?.batch_yield || 1, safetyPct);
+    return {
+      id: `${date}_${item.id}`,
+      date,
+      item_id: item.id,
+      item_name: item.name,
+      forecast_units: Math.round(forecast * 10) / 10,
+      planned_units,
+      batches,
+      created_at: '',
+    };
+  }).filter(p => p.planned_units > 0);
+
+  const needs = ingredientRequirements(plans, recipes);
+  const saved = getProductionPlans().filter(p => p.date === date);
+  const outcomes = planOutcomes(getProductionPlans(), orders, today).slice(0, 14);
+  const plannedTotal = outcomes.reduce((s, o) => s + o.planned, 0);
+  const surplusTotal = outcomes.reduce((s, o) => s + Math.max(0, o.surplus), 0);
+
+  const handleSave = () => {
+    const now = new Date().toISOString();
+    saveProductionPlans(date, plans.map(p => ({ ...p, created_at: now })));
+    saveConfig({ ...getConfig(), prep_safety_pct: safetyPct });
+    setMsg(`Prep plan for ${date} saved`);
+    setVersion(v => v + 1);
+    setTimeout(() => setMsg(''), 2500);
+  };
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Production Planning</p>
+
+      {msg && (
+        <div className="text-sm rounded-lg px-3 py-2 text-center" style={{ background: 'hsl(var(--success) / 0.1)', color: 'hsl(var(--success))' }}>
+          ✓ {msg}
+        </div>
+      )}
+
+      {/* Settings */}
+      <div className="stat-card grid grid-cols-2 gap-3">
+        <div>
+          <label className="section-header block mb-1.5">Prep For</label>
+          <input type="date" value={date} min={today} onChange={e => setDate(e.target.value)} className="form-input" />
+        </div>
+        <div>
+          <label className="section-header block mb-1.5">Safety Stock (%)</label>
+          <input type="number" min="0" max="100" step="1" value={safety} onChange={e => setSafety(e.target.value)} className="form-input" />
+        </div>
+      </div>
+
+      {/* Plan */}
+      <div className="stat-card">
+        <p className="section-header flex items-center gap-2 mb-2">
+          <ClipboardList className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+          {date === addDays(today, 1) ? "Tomorrow's Prep" : `Prep for ${date}`}
+        </p>
+        {closed && (
+          <p className="text-xs mb-2" style={{ color: 'hsl(var(--warning))' }}>
+            {date} is a closed day on the trading calendar.
+          </p>
+        )}
+        {onDate.length > 0 && (
+          <p className="text-xs mb-2" style={{ color: 'hsl(var(--cyan))' }}>
+            {onDate.map(e => e.name).join(', ')} — forecast includes the event effect seen in past occurrences.
+          </p>
+        )}
+        {plans.length === 0 ? (
+          <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            Not enough sales in the last {HISTORY_DAYS} days to forecast demand.
+          </p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr style={{ color: 'hsl(var(--muted-foreground))' }}>
+                <th className="text-left pb-1.5 font-medium">Product</th>
+                <th className="text-right pb-1.5 font-medium">Forecast</th>
+                <th className="text-right pb-1.5 font-medium">Make</th>
+                <th className="text-right pb-1.5 font-medium">Batches</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+              {plans.map(p => (
+                <tr key={p.item_id} className="border-t" style={{ borderColor: 'hsl(var(--border))' }}>
+                  <td className="py-1.5 font-sans">{p.item_name}</td>
+                  <td className="text-right">{p.forecast_units.toFixed(1)}</td>
+                  <td className="text-right metric-value">{p.planned_units}</td>
+                  <td className="text-right">{recipes.some(r => r.item_id === p.item_id) ? p.batches : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {saved.length > 0 && (
+          <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            A plan for this day was saved {new Date(saved[0].created_at).toLocaleString()}; saving again replaces it.
+          </p>
+        )}
+      </div>
+
+      {/* Ingredients */}
+      {Object.keys(needs).length > 0 && (
+        <div className="stat-card">
+          <p className="section-header mb-2">Ingredients Needed</p>
+          {Object.entries(needs).map(([id, qty]) => {
+            const ing = ingredients.find(i => i.id === id);
+            const onHand = stock[id] || 0;
+            const short = qty > onHand;
+            return (
+              <div key={id} className="flex justify-between py-1.5 border-b last:border-0 text-sm" style={{ borderColor: 'hsl(var(--border))' }}>
+                <span className="flex items-center gap-1.5" style={{ color: 'hsl(var(--foreground))' }}>
+                  {short && <AlertTriangle className="w-3.5 h-3.5" style={{ color: 'hsl(var(--warning))' }} />}
+                  {ing?.name || id}
+                </span>
+                <span className="font-mono" style={{ color: short ? 'hsl(var(--warning))' : 'hsl(var(--foreground))' }}>
+                  {qty.toFixed(0)} {ing?.unit} <span style={{ color: 'hsl(var(--muted-foreground))' }}>/ {Math.max(0, onHand).toFixed(0)} on hand</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {plans.length > 0 && (
+        <button onClick={handleSave} className="btn-primary w-full flex items-center justify-center gap-2">
+          <SaveIcon className="w-4 h-4" />
+          Save Prep Plan
+        </button>
+      )}
+
+      <ProductionLogForm orders={orders} onSaved={() => setVersion(v => v + 1)} />
+
+      {/* Planned vs sold */}
+      {outcomes.length > 0 && (
+        <div className="stat-card">
+          <div className="flex justify-between items-center mb-2">
+            <p className="section-header">Planned vs Sold</p>
+            <span className="text-xs font-mono" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              unsold {plannedTotal > 0 ? ((surplusTotal / plannedTotal) * 100).toFixed(1) : 0}%
+            </span>
+          </div>
+          {outcomes.map(o => (
+            <div key={`${o.date}_${o.item_id}`} className="flex justify-between py-1.5 border-b last:border-0 text-xs" style={{ borderColor: 'hsl(var(--border))' }}>
+              <span style={{ color: 'hsl(var(--muted-foreground))' }}>{o.date} · {o.item_name}</span>
+              <span className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                {o.planned} → {o.sold}{' '}
+                <span style={{ color: o.surplus > 0 ? 'hsl(var(--warning))' : o.surplus < 0 ? 'hsl(var(--danger))' : 'hsl(var(--success))' }}>
+                  ({o.surplus > 0 ? `+${o.surplus} unsold` : o.surplus < 0 ? `${-o.surplus} short` : 'exact'})
+                </span>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { getItems, saveItem, setItemArchived, getItemCategories, getConfig } from '@/utils/storage';
+import { useOrders } from '@/hooks/use-orders';
+import { PlusCircle, SaveIcon, Archive, ArchiveRestore, Pencil } from 'lucide-react';
+import type { Item } from '@/types';
+
+const EMPTY_FORM = { name: '', sku: '', category: '', unit: 'pcs', price: '' };
+
+export default function Products() {
+  const config = getConfig();
+  const symbol = config.currency_symbol;
+  const orders = useOrders();
+
+  const [items, setItems] = useState<Item[]>(() => getItems());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showArchived, setShowArchived] = useState(false);
+  const [error, setError] = useState('');
+
+  const categories = getItemCategories();
+  const refresh = () => setItems(getItems());
+
+  const unitsSold = (id: string) =>
+    orders.filter(o => o.item_id === id).reduce((s, o) => s + o.quantity, 0);
+
+  const startEdit = (item: Item) => {
+    setEditingId(item.id);
+    setForm({ name: item.name, sku: item.sku, category: item.category, unit: item.unit, price: String(item.default_price) });
+    setError('');
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setError('');
+  };
+
+  const handleSave = () => {
+    const name = form.name.trim();
+    const sku = form.sku.trim().toUpperCase();
+    const price = Number(form.price);
+
+    if (!name) return setError('Product name is required');
+    if (!price || price <= 0) return setError('Price must be positive');
+    if (sku && items.some(i => i.id !== editingId && i.sku.toUpperCase() === sku)) {
+      return setError(`SKU ${sku} is already used`);
+    }
+    if (items.some(i => i.id !== editingId && i.name.toLowerCase() === name.toLowerCase())) {
+      return setError(`A product named ${name} already exists`);
+    }
+
+    const existing = items.find(i => i.id === editingId);
+    saveItem({
+      id: existing?.id || crypto.randomUUID(),
+      name,
+      sku,
+      category: form.category.trim(),
+      unit: form.unit.trim() || 'pcs',
+      default_price: price,
+      archived: existing?.archived || false,
+    });
+    refresh();
+    resetForm();
+  };
+
+  const toggleArchive = (item: Item) => {
+    setItemArchived(item.id, !item.archived);
+    refresh();
+  };
+
+  const visible = items.filter(i => showArchived || !i.archived);
+  const grouped = visible.reduce((acc: Record<string, Item[]>, i) => {
+    const key = i.category || 'Uncategorised';
+    (acc[key] = acc[key] || []).push(i);
+    return acc;
+  }, {});
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Product Catalogue</p>
+
+      {/* Create / edit */}
+      <div className="stat-card space-y-3">
+        <p className="section-header">{editingId ? 'Edit Product' : 'New Product'}</p>
+
+        {error && (
+          <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="section-header block mb-1.5">Name</label>
+          <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="e.g. Roti Telur" className="form-input" maxLength={60} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">SKU</label>
+            <input value={form.sku} onChange={e => setForm({ ...form, sku: e.target.value })} placeholder="RTELUR" className="form-input" maxLength={20} />
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Category</label>
+            <input value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} placeholder="Bread" className="form-input" list="product-categories" />
+            <datalist id="product-categories">
+              {categories.map(c => <option key={c} value={c} />)}
+            </datalist>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Unit</label>
+            <input value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value })} placeholder="pcs" className="form-input" maxLength={12} />
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Default Price ({symbol})</label>
+            <input type="number" min="0.01" step="0.01" value={form.price} onChange={e => setForm({ ...form, price: e.target.value })} placeholder="0.00" className="form-input" />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button onClick={handleSave} className="btn-primary flex-1 flex items-center justify-center gap-2">
+            {editingId ? <SaveIcon className="w-4 h-4" /> : <PlusCircle className="w-4 h-4" />}
+            {editingId ? 'Save Changes' : 'Add Product'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="btn-secondary">Cancel</button>
+          )}
+        </div>
+      </div>
+
+      {/* Catalogue list */}
+      <div className="flex items-center justify-between">
+        <p className="section-header">{visible.length} product{visible.length === 1 ? '' : 's'}</p>
+        <label className="flex items-center gap-2 text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} />
+          Show archived
+        </label>
+      </div>
+
+      {Object.entries(grouped).sort(([a], [b]) => a.localeCompare(b)).map(([category, list]) => (
+        <div key={category} className="stat-card">
+          <p className="section-header mb-2">{category}</p>
+          {list.map(item => (
+            <div key={item.id} className="flex items-center justify-between py-2 border-b last:border-0" style={{ borderColor: 'hsl(var(--border))', opacity: item.archived ? 0.5 : 1 }}>
+              <div>
+                <p className="text-sm font-medium" style={{ color: 'hsl(var(--foreground))' }}>
+                  {item.name}
+                  {item.archived && <span className="badge-warning ml-2">archived</span>}
+                </p>
+                <p className="text-xs mt-0.5" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  {item.sku || 'no SKU'} · {symbol} {item.default_price.toFixed(2)} / {item.unit} · {unitsSold(item.id)} sold
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <button onClick={() => startEdit(item)} className="p-1 rounded" title="Edit" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => toggleArchive(item)} className="p-1 rounded" title={item.archived ? 'Restore' : 'Archive'} style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  {item.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+        Archived products are hidden from sales entry but keep their sales history and analytics.
+      </p>
+    </div>
+  );
+}
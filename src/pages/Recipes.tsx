@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import {
+  getIngredients, saveIngredient, getActiveItems, getItem, getRecipe, saveRecipe, getConfig
+} from '@/utils/storage';
+import { recipeUnitCost } from '@/utils/costing';
+import { PlusCircle, SaveIcon, X, ChefHat } from 'lucide-react';
+import type { Ingredient, RecipeLine } from '@/types';
+
+const EMPTY_INGREDIENT = { name: '', unit: 'g', price: '' };
+
+export default function Recipes() {
+  const config = getConfig();
+  const symbol = config.currency_symbol;
+  const items = getActiveItems();
+
+  const [ingredients, setIngredients] = useState<Ingredient[]>(() => getIngredients());
+  const [newIngredient, setNewIngredient] = useState(EMPTY_INGREDIENT);
+  const [itemId, setItemId] = useState(items[0]?.id || '');
+  const [batchYield, setBatchYield] = useState(() => String(getRecipe(items[0]?.id || '')?.batch_yield || 1));
+  const [lines, setLines] = useState<RecipeLine[]>(() => getRecipe(items[0]?.id || '')?.lines || []);
+  const [error, setError] = useState('');
+  const [msg, setMsg] = useState('');
+
+  const showMsg = (text: string) => {
+    setMsg(text);
+    setTimeout(() => setMsg(''), 2500);
+  };
+
+  const selectItem = (id: string) => {
+    const recipe = getRecipe(id);
+    setItemId(id);
+    setBatchYield(String(recipe?.batch_yield || 1));
+    setLines(recipe?.lines || []);
+    setError('');
+  };
+
+  const updatePrice = (ing: Ingredient, value: string) => {
+    const price = Number(value);
+    if (value === '' || price < 0) return;
+    saveIngredient({ ...ing, unit_price: price });
+    setIngredients(getIngredients());
+  };
+
+  const addIngredient = () => {
+    const name = newIngredient.name.trim();
+    const price = Number(newIngredient.price);
+    if (!name) return setError('Ingredient name is required');
+    if (!(price >= 0) || newIngredient.price === '') return setError('Unit price is required');
+    if (ingredients.some(i => i.name.toLowerCase() === name.toLowerCase())) {
+      return setError(`${name} already exists`);
+    }
+    saveIngredient({ id: crypto.randomUUID(), name, unit: newIngredient.unit.trim() || 'g', unit_price: price, archived: false });
+    setIngredients(getIngredients());
+    setNewIngredient(EMPTY_INGREDIENT);
+    setError('');
+  };
+
+  const addLine = () => {
+    const unused = ingredients.find(i => !i.archived && !lines.some(l => l.ingredient_id === i.id));
+    if (unused) setLines([...lines, { ingredient_id: unused.id, quantity: 0 }]);
+  };
+
+  const updateLine = (idx: number, patch: Partial<RecipeLine>) =>
+    setLines(lines.map((l, i) => (i === idx ? { ...l, ...patch } : l)));
+
+  const handleSave = () => {
+    const yieldUnits = Number(batchYield);
+    if (!itemId) return setError('Select a product');
+    if (!yieldUnits || yieldUnits <= 0) return setError('Batch yield must be positive');
+    const cleaned = lines.filter(l => l.quantity > 0);
+    saveRecipe({ item_id: itemId, batch_yield: yieldUnits, lines: cleaned, updated_at: new Date().toISOString() });
+    setLines(cleaned);
+    setError('');
+    showMsg(`Recipe for ${getItem(itemId)?.name} saved — new sales will use it for COGS`);
+  };
+
+  const draft = { item_id: itemId, batch_yield: Number(batchYield) || 0, lines, updated_at: '' };
+  const unitCost = recipeUnitCost(draft, ingredients);
+  const price = getItem(itemId)?.default_price || 0;
+  const unitMargin = price > 0 ? ((price - unitCost) / price) * 100 : 0;
+  const unitOf = (id: string) => ingredients.find(i => i.id === id)?.unit || '';
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Recipes &amp; COGS</p>
+
+      {error && (
+        <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+          {error}
+        </div>
+      )}
+      {msg && (
+        <div className="text-sm rounded-lg px-3 py-2 text-center" style={{ background: 'hsl(var(--success) / 0.1)', color: 'hsl(var(--success))' }}>
+          ✓ {msg}
+        </div>
+      )}
+
+      {/* Recipe editor */}
+      <div className="stat-card space-y-3">
+        <p className="section-header flex items-center gap-2">
+          <ChefHat className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+          Bill of Materials
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="section-header block mb-1.5">Product</label>
+            <select value={itemId} onChange={e => selectItem(e.target.value)} className="form-input">
+              {items.map(item => (
+                <option key={item.id} value={item.id}>{item.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="section-header block mb-1.5">Batch Yield</label>
+            <input type="number" min="1" step="1" value={batchYield} onChange={e => setBatchYield(e.target.value)} className="form-input" />
+          </div>
+        </div>
+
+        {lines.map((line, idx) => (
+          <div key={line.ingredient_id} className="flex items-center gap-2">
+            <select value={line.ingredient_id} onChange={e => updateLine(idx, { ingredient_id: e.target.value })} className="form-input flex-1">
+              {ingredients.filter(i => !i.archived || i.id === line.ingredient_id).map(i => (
+                <option key={i.id} value={i.id} disabled={i.id !== line.ingredient_id && lines.some(l => l.ingredient_id === i.id)}>{i.name}</option>
+              ))}
+            </select>
+            <input
+              type="number" min="0" step="any" value={line.quantity || ''}
+              onChange={e => updateLine(idx, { quantity: Number(e.target.value) || 0 })}
+              placeholder="0" className="form-input" style={{ width: '6rem' }}
+            />
+            <span className="text-xs w-8" style={{ color: 'hsl(var(--muted-foreground))' }}>{unitOf(line.ingredient_id)}</span>
+            <button onClick={() => setLines(lines.filter((_, i) => i !== idx))} className="p-1 rounded" title="Remove" style={{ color: 'hsl(var(--muted-foreground))' }}>
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+
+        <button onClick={addLine} className="btn-secondary w-full flex items-center justify-center gap-2 text-xs">
+          <PlusCircle className="w-3.5 h-3.5" />
+          Add Ingredient Line
+        </button>
+
+        <div className="pt-3 border-t space-y-1" style={{ borderColor: 'hsl(var(--border))' }}>
+          <div className="flex justify-between text-sm">
+            <span style={{ color: 'hsl(var(--muted-foreground))' }}>COGS per unit</span>
+            <span className="metric-value">{symbol} {unitCost.toFixed(3)}</span>
+          </div>
+          <div className="flex justify-between text-sm">
+            <span style={{ color: 'hsl(var(--muted-foreground))' }}>Gross margin at {symbol} {price.toFixed(2)}</span>
+            <span className="font-mono" style={{ color: unitMargin >= 0 ? 'hsl(var(--success))' : 'hsl(var(--danger))' }}>{unitMargin.toFixed(1)}%</span>
+          </div>
+        </div>
+
+        <button onClick={handleSave} className="btn-primary w-full flex items-center justify-center gap-2">
+          <SaveIcon className="w-4 h-4" />
+          Save Recipe
+        </button>
+      </div>
+
+      {/* Ingredient prices */}
+      <div className="stat-card space-y-3">
+        <p className="section-header">Ingredient Prices</p>
+        {ingredients.filter(i => !i.archived).map(ing => (
+          <div key={ing.id} className="flex items-center justify-between gap-3">
+            <span className="text-sm flex-1" style={{ color: 'hsl(var(--foreground))' }}>{ing.name}</span>
+            <input
+              type="number" min="0" step="any" defaultValue={ing.unit_price}
+              onBlur={e => updatePrice(ing, e.target.value)}
+              className="form-input" style={{ width: '7rem' }}
+            />
+            <span className="text-xs w-14" style={{ color: 'hsl(var(--muted-foreground))' }}>{symbol}/{ing.unit}</span>
+          </div>
+        ))}
+
+        <div className="pt-3 border-t grid grid-cols-3 gap-2" style={{ borderColor: 'hsl(var(--border))' }}>
+          <input value={newIngredient.name} onChange={e => setNewIngredient({ ...newIngredient, name: e.target.value })} placeholder="e.g. Salt" className="form-input" maxLength={40} />
+          <input value={newIngredient.unit} onChange={e => setNewIngredient({ ...newIngredient, unit: e.target.value })} placeholder="g" className="form-input" maxLength={8} />
+          <input type="number" min="0" step="any" value={newIngredient.price} onChange={e => setNewIngredient({ ...newIngredient, price: e.target.value })} placeholder={`${symbol}/unit`} className="form-input" />
+        </div>
+        <button onClick={addIngredient} className="btn-secondary w-full flex items-center justify-center gap-2 text-xs">
+          <PlusCircle className="w-3.5 h-3.5" />
+          Add Ingredient
+        </button>
+        <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          Price changes apply to sales recorded from now on; past sales keep the COGS they were recorded with.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,16 @@
 import { useState } from 'react';
 import {
-  getOrders, exportOrdersCSV, importOrdersCSV, exportBackup, importBackup,
-  getConfig, getCostForMonth, monthISO, daysAgoISO, deleteOrder
+  exportOrdersCSV, exportBackup, importBackup,
+  getConfig, monthlyCostSplit, monthISO, daysAgoISO
 } from '@/utils/storage';
+import { clearOrders, importOrders, syncOrders } from '@/services/orderRepository';
+import { useOrders } from '@/hooks/use-orders';
+import { basketMetrics } from '@/utils/transactions';
+import { calendarFromConfig, dailySeries, seasonLength, tradingDays } from '@/utils/timeseries';
 import {
   mean, stdDev, linearRegression, compoundGrowthRate,
-  coefficientOfVariation, enterpriseHealthIndex, errorMetrics,
-  movingAverage, exponentialMovingAverage, breakEvenAnalysis
+  coefficientOfVariation, enterpriseHealthIndex, walkForwardBacktest,
+  movingAverage, breakEvenAnalysis, BACKTEST_TRAIN_DAYS
 } from '@/utils/math';
 import { Download, Upload, FileText, Database, Trash2 } from 'lucide-react';
 import jsPDF from 'jspdf';
@@ -26,6 +30,7 @@ export default function Reports() {
   const symbol = config.currency_symbol;
   const [msg, setMsg] = useState('');
   const [fileRef, setFileRef] = useState<HTMLInputElement | null>(null);
+  const orders = useOrders();
 
   const showMsg = (text: string) => {
     setMsg(text);
@@ -49,7 +54,7 @@ export default function Reports() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
-      const result = importOrdersCSV(ev.target?.result as string);
+      const result = importOrders(ev.target?.result as string);
       showMsg(`Imported ${result.imported} records (${result.errors} errors)`);
     };
     reader.readAsText(file);
@@ -61,25 +66,23 @@ export default function Reports() {
     const reader = new FileReader();
     reader.onload = (ev) => {
       const ok = importBackup(ev.target?.result as string);
+      if (ok) syncOrders();
       showMsg(ok ? 'Backup restored successfully' : 'Restore failed — invalid backup file');
     };
     reader.readAsText(file);
   };
 
   const generatePDFReport = () => {
-    const orders = getOrders();
     const month = monthISO();
     const monthOrders = orders.filter(o => o.date.startsWith(month));
-    const allRevenues = Object.values(
-      orders.reduce((acc: Record<string, number>, o) => {
-        acc[o.date] = (acc[o.date] || 0) + o.total_revenue;
-        return acc;
-      }, {})
-    );
+    const calendar = calendarFromConfig(config);
+    const allRevenues = tradingDays(dailySeries(orders, calendar), calendar).map(p => p.revenue);
 
     const monthRev = monthOrders.reduce((s, o) => s + o.total_revenue, 0);
-    const cost = getCostForMonth(month);
-    const totalCost = cost ? cost.flour_cost + cost.gas_cost + cost.electricity_cost + cost.labor_cost + cost.misc_cost : 0;
+    const baskets = basketMetrics(monthOrders);
+    const costSplit = monthlyCostSplit(month);
+    const totalCost = costSplit.fixed + costSplit.variable;
+    const breakEven = breakEvenAnalysis(monthRev, costSplit.fixed, costSplit.variable).break_even;
     const profit = monthRev - totalCost;
     const mu = mean(allRevenues);
     const cv = coefficientOfVariation(allRevenues);
@@ -87,10 +90,12 @@ export default function Reports() {
     const cagr = allRevenues.length >= 2
       ? compoundGrowthRate(allRevenues[0] || 1, allRevenues[allRevenues.length - 1] || 1, allRevenues.length)
       : 0;
-    const ema = exponentialMovingAverage(allRevenues, 0.3);
-    const metrics = allRevenues.length >= 2
-      ? errorMetrics(allRevenues.slice(1), ema.slice(0, -1))
-      : { mae: 0, mse: 0, rmse: 0, mape: 0 };
+    // Forecast error as on the Dashboard: the best model's held-out error,
+    // 20% MAPE until there is enough history to backtest
+    const best = walkForwardBacktest(allRevenues, {
+      horizon: 7, maxTrain: BACKTEST_TRAIN_DAYS, season: seasonLength(calendar),
+    })[0];
+    const metrics = best ? best.overall : { mae: 0, rmse: 0, mape: 20 };
     const health = enterpriseHealthIndex({
       cagr, cv,
       profit_margin: monthRev > 0 ? profit / monthRev : 0,
@@ -133,7 +138,7 @@ export default function Reports() {
 
     section('EXECUTIVE SUMMARY');
     const healthLabel = health.score >= 75 ? 'EXCELLENT' : health.score >= 60 ? 'GOOD' : health.score >= 45 ? 'MODERATE' : 'AT RISK';
-    const summaryText = `This ${month} report covers ${monthOrders.length} transactions generating ${symbol} ${monthRev.toFixed(2)} in revenue. ` +
+    const summaryText = `This ${month} report covers ${baskets.transactions} transactions generating ${symbol} ${monthRev.toFixed(2)} in revenue. ` +
       `Net profit stands at ${symbol} ${profit.toFixed(2)} against total operating costs of ${symbol} ${totalCost.toFixed(2)}. ` +
       `The Enterprise Health Index is ${health.score}/100 (${healthLabel}), driven by a ` +
       `${(cagr * 100).toFixed(1)}% compound growth rate, ${(cv * 100).toFixed(1)}% revenue volatility (CV), ` +
@@ -147,7 +152,8 @@ export default function Reports() {
 
     section('REVENUE METRICS');
     row('Monthly Revenue', `${symbol} ${monthRev.toFixed(2)}`);
-    row('Total Orders', `${monthOrders.length}`);
+    row('Transactions', `${baskets.transactions}`);
+    row('Average Basket', `${symbol} ${baskets.avg_basket_value.toFixed(2)} (${baskets.avg_basket_units.toFixed(1)} units)`);
     row('Average Daily Revenue', `${symbol} ${mu.toFixed(2)}`);
     row('Std Deviation', `${symbol} ${stdDev(allRevenues).toFixed(2)}`);
     row('Revenue Trend (slope)', `${reg.slope.toFixed(3)} ${symbol}/day`);
@@ -156,9 +162,10 @@ export default function Reports() {
 
     section('COST & PROFITABILITY');
     row('Total Operating Cost', `${symbol} ${totalCost.toFixed(2)}`);
+    row('Fixed / Variable', `${symbol} ${costSplit.fixed.toFixed(2)} / ${symbol} ${costSplit.variable.toFixed(2)}`);
     row('Net Profit', `${symbol} ${profit.toFixed(2)}`);
     row('Profit Margin', `${monthRev > 0 ? ((profit / monthRev) * 100).toFixed(1) : 0}%`);
-    row('Break-even Revenue', `${symbol} ${totalCost.toFixed(2)}`);
+    row('Break-even Revenue', Number.isFinite(breakEven) ? `${symbol} ${breakEven.toFixed(2)}` : 'Not reachable (negative margin)');
     row('Surplus / Deficit', `${symbol} ${(monthRev - totalCost).toFixed(2)}`);
     y += 3;
 
@@ -182,7 +189,7 @@ export default function Reports() {
     const methodText = [
       '• Additive decomposition: R(t) = T(t) + S(t) + E(t)',
       '• Trend via OLS linear regression; Seasonal via weekday averaging',
-      '• Forecast error: MAPE computed on EMA in-sample predictions',
+      '• Forecast error: MAPE of the best model in a 1–7 day walk-forward backtest',
       '• Anomaly detection: Z-score threshold |z| > 2.0',
       '• Health Index: equally weighted composite (Growth 25%, Stability 25%,',
       '  Profitability 25%, Forecast Reliability 25%)',
@@ -206,13 +213,11 @@ export default function Reports() {
 
   const handleClearAll = () => {
     if (confirm('Delete ALL sales data? This cannot be undone.')) {
-      getOrders().forEach(o => deleteOrder(o.id));
-      showMsg('All data cleared');
+      const kept = clearOrders();
+      showMsg(kept > 0 ? `Data cleared — ${kept} locked or closed-period entries kept` : 'All data cleared');
     }
   };
 
-  const orders = getOrders();
-
   return (
     <div className="px-4 py-4 space-y-4">
       <p className="section-header">Reports & Data Management</p>
@@ -264,7 +269,7 @@ export default function Reports() {
           <input type="file" accept=".csv" className="hidden" onChange={handleImportCSV} />
         </label>
         <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
-          CSV columns: id, date, item_name, quantity, unit_price, total_revenue, notes, created_at
+          CSV columns: id, date, item_id, item_name, quantity, unit_price, total_revenue, notes, created_at
         </p>
       </div>
 
@@ -284,7 +289,7 @@ export default function Reports() {
           <input type="file" accept=".json" className="hidden" onChange={handleImportBackup} />
         </label>
         <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
-          Full backup includes orders, costs, items, and configuration.
+          Full backup includes orders, expenses, items, and configuration.
         </p>
       </div>
 
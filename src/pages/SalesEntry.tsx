@@ -1,34 +1,16 @@
-import { loadRevenueEntries } from "../services/firestoreService";
-import { useState, useEffect } from 'react';
-import { getItems, saveOrder, getOrders, todayISO, getConfig } from '@/utils/storage';
-import { PlusCircle, Trash2, CheckCircle } from 'lucide-react';
-import type { Order, ProductName } from '@/types';
-import { saveRevenueEntry } from "../services/firestoreService";
-import { trashRevenueEntry } from "../services/firestoreService";
+import { useState } from 'react';
+import { getActiveItems, getTransaction, todayISO, getConfig } from '@/utils/storage';
+import { PlusCircle, Trash2, CheckCircle, ShoppingBasket, X, Pencil } from 'lucide-react';
+import type { Order, BasketLine, Transaction } from '@/types';
+import { recordTransaction, removeOrder, restoreOrder, setOrderLocked } from '@/services/orderRepository';
+import { useOrders } from '@/hooks/use-orders';
+import EditOrderDialog from '@/components/EditOrderDialog';
 
 export default function SalesEntry() {
-  const [undoOrder , setUndoOrder] = useState<any>(null);
-  const [, forceUpdate] = useState(0);
-  const [cloudOrders, setCloudOrders] = useState<any[]>([]);
-  useEffect(()=>{
-
-    const load=async()=>{
-
-      const data=
-      await loadRevenueEntries();
-
-      if(data.length>0){
-
-        setCloudOrders(data);
-
-      }
-
-    };
-
-    load();
-
-  },[]);  
-  const items = getItems();
+  const [undoOrder , setUndoOrder] = useState<Order | null>(null);
+  const [editing, setEditing] = useState<Order | null>(null);
+  const allOrders = useOrders();
+  const items = getActiveItems();
   const config = getConfig();
   const symbol = config.currency_symbol;
 
@@ -36,16 +18,26 @@ export default function SalesEntry() {
   const [itemId, setItemId] = useState(items[0]?.id || '1');
   const [quantity, setQuantity] = useState('');
   const [price, setPrice] = useState(() => String(items[0]?.default_price || ''));
+  const [basket, setBasket] = useState<BasketLine[]>([]);
+  const [discount, setDiscount] = useState('');
   const [notes, setNotes] = useState('');
-  const [saved, setSaved] = useState(false);
+  const [receipt, setReceipt] = useState<Transaction | null>(null);
   const [error, setError] = useState('');
 
   const selectedItem = items.find(i => i.id === itemId);
 
-  const total =
+  const lineTotal =
     (Number(quantity) || 0) *
     (Number(price) || 0);
 
+  const subtotal =
+    basket.reduce((s, l) => s + l.quantity * l.unit_price, 0);
+
+  const discountAmt =
+    Math.min(Number(discount) || 0, subtotal);
+
+  const total = subtotal - discountAmt;
+
   const handleItemChange = (id: string) => {
 
     setItemId(id);
@@ -56,71 +48,120 @@ export default function SalesEntry() {
 
   };
 
-  const handleSubmit = async () => {
-
-    setError('');
+  // Validate the line inputs; returns the line or sets an error
+  const buildLine = (): BasketLine | null => {
 
     const qty = Number(quantity);
     const prc = Number(price);
 
-    if (!date) return setError('Please select a date');
+    if (!selectedItem) {
+      setError('Please select a product');
+      return null;
+    }
 
-    if (!qty || qty <= 0)
-      return setError('Quantity must be positive');
+    if (!qty || qty <= 0) {
+      setError('Quantity must be positive');
+      return null;
+    }
 
-    if (!prc || prc <= 0)
-      return setError('Price must be positive');
+    if (!prc || prc <= 0) {
+      setError('Price must be positive');
+      return null;
+    }
+
+    if (qty > 10000) {
+      setError('Quantity too large');
+      return null;
+    }
+
+    if (prc > 10000) {
+      setError('Price too large');
+      return null;
+    }
 
-    if (qty > 10000)
-      return setError('Quantity too large');
+    return {
+      item_id: selectedItem.id,
+      item_name: selectedItem.name,
+      quantity: qty,
+      unit_price: prc,
+    };
 
-    if (prc > 10000)
-      return setError('Price too large');
+  };
 
-    const order: Order = {
+  const addToBasket = () => {
 
-      id: crypto.randomUUID(),
-      locked:false,
-      date,
+    setError('');
 
-      item_id: itemId,
+    const line = buildLine();
 
-      item_name: selectedItem?.name as ProductName,
+    if (!line) return;
 
-      quantity: qty,
+    setBasket(b => [...b, line]);
 
-      unit_price: prc,
+    setQuantity('');
 
-      total_revenue: qty * prc,
+  };
 
-      notes: notes.trim().slice(0, 200),
+  const removeFromBasket = (idx: number) => {
 
-      created_at: new Date().toISOString(),
+    setBasket(b => b.filter((_, i) => i !== idx));
 
-    };
+  };
 
-    // LOCAL SAVE
-    saveOrder(order);
+  const handleSubmit = () => {
 
-    // FIRESTORE CLOUD SAVE
-    await saveRevenueEntry(order);
+    setError('');
+
+    if (!date) return setError('Please select a date');
 
-    setSaved(true);
+    // A filled-in line that was not added yet is part of the sale
+    let lines = basket;
+
+    if (quantity) {
+      const line = buildLine();
+      if (!line) return;
+      lines = [...basket, line];
+    }
+
+    if (lines.length === 0)
+      return setError('Add at least one product to the basket');
+
+    if (Number(discount) < 0)
+      return setError('Discount cannot be negative');
+
+    // LOCAL + CLOUD SAVE
+    let tx: Transaction;
+
+    try {
+      tx = recordTransaction(lines, {
+        date,
+        discount: Number(discount) || 0,
+        notes: notes.trim().slice(0, 200),
+      });
+    } catch (err) {
+      return setError(err instanceof Error ? err.message : String(err));
+    }
+
+    setReceipt(tx);
+
+    setBasket([]);
 
     setQuantity('');
 
+    setDiscount('');
+
     setNotes('');
 
-    setTimeout(() => setSaved(false), 2000);
+    setTimeout(() => setReceipt(null), 5000);
 
   };
 
   // Recent Orders
 
-  const allOrders =
-  cloudOrders.length>0
-  ? cloudOrders
-  : getOrders();
+  const receiptLabel = (order: Order) => {
+    const tx = order.transaction_id && getTransaction(order.transaction_id);
+    return tx ? ` · ${tx.receipt_no}` : '';
+  };
 
   const recent =
   [...allOrders]
@@ -130,41 +171,22 @@ export default function SalesEntry() {
   .slice(0,10);
 
   
-    const toggleLock=async (id:string)=>{
-      const { getOrders }=
-      await import('@/utils/storage');
-
-      const orders=getOrders();
-
-      const updated=orders.map((o:any)=>{
-        if(o.id===id){
-          return {
-            ...o,
-            locked:!o.locked
-          };
-        }
-        return o;
-      });
+  const toggleLock=(order:Order)=>{
 
-      localStorage.setItem(
-        "orders",
-        JSON.stringify(updated)
-      );
-      
-      forceUpdate(n=>n+1);
-    };
+    try{
+      setOrderLocked(order.id,!order.locked);
+    }catch(err){
+      alert(err instanceof Error ? err.message : String(err));
+    }
+
+  };
 
   const handleDelete =
   async(id:string)=>{
 
-    const allOrders =
-    cloudOrders.length>0
-    ? cloudOrders
-    : getOrders();
-
     const order=
     allOrders.find(
-      (o:any)=>o.id===id
+      o=>o.id===id
     );
 
 
@@ -173,22 +195,16 @@ export default function SalesEntry() {
     return;
     }
 
-    const { deleteOrder }=
-    await import('@/utils/storage');
-
-    deleteOrder(id);
-
-    if(order?.firestoreId){
-
-      await trashRevenueEntry(
-
-        order.firestoreId
-
-      );
+    let removed:Order|null=null;
 
+    try{
+      removed=removeOrder(id);
+    }catch(err){
+      alert(err instanceof Error ? err.message : String(err));
+      return;
     }
 
-    setUndoOrder(order);
+    setUndoOrder(removed);
 
     setTimeout(()=>{
 
@@ -196,8 +212,6 @@ export default function SalesEntry() {
 
     },5000);
 
-   forceUpdate(n=>n+1);
-
   };
   
   return (
@@ -211,10 +225,10 @@ export default function SalesEntry() {
           Daily Sales Entry
         </p>
 
-        {saved && (
+        {receipt && (
 
           <div
-            className="flex items-center gap-2 rounded-lg px-3 py-2.5 mb-3"
+            className="rounded-lg px-3 py-2.5 mb-3"
             style={{
               background: 'hsl(var(--success) / 0.1)',
               border:
@@ -222,23 +236,41 @@ export default function SalesEntry() {
             }}
           >
 
-            <CheckCircle
-              className="w-4 h-4"
-              style={{
-                color: 'hsl(var(--success))'
-              }}
-            />
+            <div className="flex items-center gap-2">
 
-            <span
-              className="text-sm"
+              <CheckCircle
+                className="w-4 h-4"
+                style={{
+                  color: 'hsl(var(--success))'
+                }}
+              />
+
+              <span
+                className="text-sm"
+                style={{
+                  color: 'hsl(var(--success))'
+                }}
+              >
+
+                Sale recorded · Receipt {receipt.receipt_no}
+
+              </span>
+
+            </div>
+
+            <p
+              className="text-xs mt-1 font-mono"
               style={{
-                color: 'hsl(var(--success))'
+                color: 'hsl(var(--muted-foreground))'
               }}
             >
 
-              Sale recorded successfully
+              {receipt.order_ids.length} line{receipt.order_ids.length === 1 ? '' : 's'}
+              {' · '}Subtotal {symbol} {receipt.subtotal.toFixed(2)}
+              {receipt.discount > 0 && ` · Discount ${symbol} ${receipt.discount.toFixed(2)}`}
+              {' · '}Total {symbol} {receipt.total.toFixed(2)}
 
-            </span>
+            </p>
 
           </div>
 
@@ -358,6 +390,97 @@ export default function SalesEntry() {
 
           </div>
 
+          <button
+            onClick={addToBasket}
+            className="btn-secondary w-full flex items-center justify-center gap-2"
+          >
+
+            <ShoppingBasket className="w-4 h-4" />
+
+            Add to Basket · {symbol} {lineTotal.toFixed(2)}
+
+          </button>
+
+          {basket.length > 0 && (
+
+            <div
+              className="rounded-lg px-3 py-2.5 space-y-1.5"
+              style={{
+                background:
+                  'hsl(var(--muted))'
+              }}
+            >
+
+              {basket.map((line, idx) => (
+
+                <div
+                  key={idx}
+                  className="flex items-center justify-between text-sm"
+                >
+
+                  <span style={{ color: 'hsl(var(--foreground))' }}>
+
+                    {line.item_name} · {line.quantity} × {symbol}{line.unit_price.toFixed(2)}
+
+                  </span>
+
+                  <span className="flex items-center gap-2">
+
+                    <span className="font-mono">
+
+                      {symbol} {(line.quantity * line.unit_price).toFixed(2)}
+
+                    </span>
+
+                    <button
+                      onClick={() => removeFromBasket(idx)}
+                      className="p-0.5 rounded"
+                      style={{ color: 'hsl(var(--muted-foreground))' }}
+                      title="Remove line"
+                    >
+
+                      <X className="w-3.5 h-3.5" />
+
+                    </button>
+
+                  </span>
+
+                </div>
+
+              ))}
+
+              <div
+                className="flex items-center justify-between pt-2 border-t"
+                style={{ borderColor: 'hsl(var(--border))' }}
+              >
+
+                <label
+                  className="text-sm"
+                  style={{ color: 'hsl(var(--muted-foreground))' }}
+                >
+
+                  Discount ({symbol})
+
+                </label>
+
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={discount}
+                  onChange={e =>
+                    setDiscount(
+                      e.target.value)}
+                  placeholder="0.00"
+                  className="form-input w-24 text-right"
+                />
+
+              </div>
+
+            </div>
+
+          )}
+
           <div
             className="rounded-lg px-3 py-2.5 flex items-center justify-between"
             style={{
@@ -374,13 +497,13 @@ export default function SalesEntry() {
               }}
             >
 
-              Total Revenue
+              {basket.length > 0 ? `Basket Total (${basket.length} line${basket.length === 1 ? '' : 's'})` : 'Total Revenue'}
 
             </span>
 
             <span className="metric-value text-lg">
 
-              {symbol} {total.toFixed(2)}
+              {symbol} {(basket.length > 0 ? total : lineTotal).toFixed(2)}
 
             </span>
 
@@ -462,6 +585,7 @@ export default function SalesEntry() {
                     {order.date} · {order.quantity}
                     × {symbol}
                     {order.unit_price}
+                    {receiptLabel(order)}
 
                   </p>
 
@@ -478,7 +602,7 @@ export default function SalesEntry() {
                   </span>
 
                   <button
-                  onClick={() =>toggleLock(order.id)}
+                  onClick={() =>toggleLock(order)}
                       
                   className="p-1 rounded"
 
@@ -486,6 +610,21 @@ export default function SalesEntry() {
                   >
                     {order.locked ? "🔒" : "🔓"}
                   </button>
+                  <button
+                    disabled={order.locked}
+                    onClick={() =>
+                      setEditing(order)}
+                    className="p-1 rounded transition-colors"
+                    title="Edit Entry"
+                    style={{
+                      color:
+                      order.locked
+                      ? "gray"
+                      : "hsl(var(--muted-foreground))"
+                    }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                  </button>
                   <button
                     disabled={order.locked}
                     onClick={() =>
@@ -514,6 +653,11 @@ export default function SalesEntry() {
       )}
 
     </div>
+    <EditOrderDialog
+      order={editing}
+      symbol={symbol}
+      onClose={() => setEditing(null)}
+    />
     {
       undoOrder && 
       (
@@ -533,8 +677,8 @@ export default function SalesEntry() {
 
           <button
           className="font-bold text-green-400"
-          onClick={async()=>{
-          await saveRevenueEntry(
+          onClick={()=>{
+          restoreOrder(
           undoOrder
           );
           setUndoOrder(null);
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { getConfig, saveConfig, getEvents, saveEvent, deleteEvent, todayISO } from '@/utils/storage';
+import { useOrders } from '@/hooks/use-orders';
+import { calendarFromConfig, dailySeries } from '@/utils/timeseries';
+import { mergeICalEvents, parseICal } from '@/utils/events';
+import { CalendarOff, PartyPopper, Plus, Upload, X } from 'lucide-react';
+import type { CalendarEvent } from '@/types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const EMPTY_EVENT = { name: '', date: todayISO(), duration_days: '1', pre_days: '0', post_days: '0', yearly: false };
+
+const WINDOW_FIELDS = [
+  ['duration_days', 'Days'],
+  ['pre_days', 'Before'],
+  ['post_days', 'After'],
+] as const;
+
+export default function TradingCalendar() {
+  const orders = useOrders();
+  const [config, setConfig] = useState(getConfig);
+  const [newDate, setNewDate] = useState(todayISO());
+  const [msg, setMsg] = useState('');
+  const [error, setError] = useState('');
+  const [events, setEvents] = useState<CalendarEvent[]>(getEvents);
+  const [draft, setDraft] = useState(EMPTY_EVENT);
+
+  const calendar = calendarFromConfig(config);
+  const points = dailySeries(orders, calendar);
+  const closedCount = points.filter(p => p.closed).length;
+  const zeroCount = points.filter(p => !p.closed && p.lines === 0).length;
+
+  const done = (text: string) => {
+    setError('');
+    setMsg(text);
+    setTimeout(() => setMsg(''), 2500);
+  };
+
+  const update = (patch: Partial<typeof config>, text: string) => {
+    const next = { ...getConfig(), ...patch };
+    saveConfig(next);
+    setConfig(next);
+    done(text);
+  };
+
+  const toggleWeekday = (day: number) => {
+    const closed = calendar.closed_weekdays.includes(day);
+    if (!closed && calendar.closed_weekdays.length >= 6) return;
+    update(
+      { closed_weekdays: closed ? calendar.closed_weekdays.filter(d => d !== day) : [...calendar.closed_weekdays, day].sort() },
+      `${WEEKDAYS[day]} marked ${closed ? 'open' : 'closed'}`
+    );
+  };
+
+  const addDate = () => {
+    if (!newDate || calendar.closed_dates.includes(newDate)) return;
+    update({ closed_dates: [...calendar.closed_dates, newDate].sort() }, `${newDate} marked closed`);
+  };
+
+  const removeDate = (date: string) =>
+    update({ closed_dates: calendar.closed_dates.filter(d => d !== date) }, `${date} reopened`);
+
+  // A name already on the list gains another date, so each year's festival shares one effect
+  const addEvent = () => {
+    const name = draft.name.trim().slice(0, 60);
+    if (!name) return setError('Enter an event name');
+    if (!draft.date) return setError('Pick the first day of the event');
+    const existing = events.find(e => e.name.toLowerCase() === name.toLowerCase());
+    const span = {
+      duration_days: Math.max(1, Math.round(Number(draft.duration_days) || 1)),
+      pre_days: Math.max(0, Math.round(Number(draft.pre_days) || 0)),
+      post_days: Math.max(0, Math.round(Number(draft.post_days) || 0)),
+    };
+    saveEvent(existing
+      ? { ...existing, ...span, dates: [...new Set([...existing.dates, draft.date])].sort() }
+      : {
+        id: crypto.randomUUID(),
+        name,
+        dates: [draft.date],
+        recurrence: draft.yearly ? 'yearly' : 'none',
+        ...span,
+        created_at: new Date().toISOString(),
+      });
+    setEvents(getEvents());
+    setDraft({ ...EMPTY_EVENT, date: draft.date });
+    done(existing ? `${draft.date} added to ${existing.name}` : `${name} added`);
+  };
+
+  const updateEvent = (event: CalendarEvent, patch: Partial<CalendarEvent>) => {
+    saveEvent({ ...event, ...patch });
+    setEvents(getEvents());
+  };
+
+  const removeEventDate = (event: CalendarEvent, date: string) => {
+    if (event.dates.length === 1) deleteEvent(event.id);
+    else saveEvent({ ...event, dates: event.dates.filter(d => d !== date) });
+    setEvents(getEvents());
+    done(event.dates.length === 1 ? `${event.name} removed` : `${date} removed from ${event.name}`);
+  };
+
+  const handleImportICal = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const parsed = parseICal(ev.target?.result as string);
+      if (parsed.length === 0) return setError('No events found in the calendar file');
+      const changed = mergeICalEvents(getEvents(), parsed, new Date().toISOString());
+      changed.forEach(saveEvent);
+      setEvents(getEvents());
+      done(`Imported ${parsed.length} entries into ${changed.length} events`);
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Trading Calendar</p>
+
+      {error && (
+        <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--destructive) / 0.1)', border: '1px solid hsl(var(--destructive) / 0.3)', color: 'hsl(var(--destructive))' }}>
+          {error}
+        </div>
+      )}
+      {msg && (
+        <div className="text-sm rounded-lg px-3 py-2 text-center" style={{ background: 'hsl(var(--success) / 0.1)', color: 'hsl(var(--success))' }}>
+          ✓ {msg}
+        </div>
+      )}
+
+      {/* Weekly closures */}
+      <div className="stat-card">
+        <p className="section-header mb-2">Closed Weekdays</p>
+        <div className="grid grid-cols-7 gap-1">
+          {WEEKDAYS.map((label, day) => {
+            const closed = calendar.closed_weekdays.includes(day);
+            return (
+              <button
+                key={label}
+                onClick={() => toggleWeekday(day)}
+                className="py-2 rounded-lg text-xs font-medium transition-all"
+                style={{
+                  background: closed ? 'hsl(var(--danger) / 0.15)' : 'hsl(var(--secondary))',
+                  color: closed ? 'hsl(var(--danger))' : 'hsl(var(--foreground))',
+                  border: `1px solid ${closed ? 'hsl(var(--danger) / 0.4)' : 'hsl(var(--border))'}`,
+                }}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs mt-2" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          Tap a day to mark it closed. Closed days are left out of analytics and forecasts; open days without sales count as zero.
+        </p>
+      </div>
+
+      {/* One-off closures */}
+      <div className="stat-card space-y-3">
+        <p className="section-header flex items-center gap-2">
+          <CalendarOff className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+          Closed Dates
+        </p>
+        <div className="flex gap-2">
+          <input type="date" value={newDate} onChange={e => setNewDate(e.target.value)} className="form-input" />
+          <button onClick={addDate} className="btn-secondary flex items-center gap-1.5">
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+        {calendar.closed_dates.length === 0 ? (
+          <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>No one-off closures.</p>
+        ) : (
+          calendar.closed_dates.slice().reverse().map(date => (
+            <div key={date} className="flex justify-between items-center py-1.5 border-b last:border-0 text-sm" style={{ borderColor: 'hsl(var(--border))' }}>
+              <span className="font-mono" style={{ color: 'hsl(var(--foreground))' }}>
+                {date} <span className="font-sans text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>{WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]}</span>
+              </span>
+              <button onClick={() => removeDate(date)} aria-label={`Reopen ${date}`}>
+                <X className="w-4 h-4" style={{ color: 'hsl(var(--muted-foreground))' }} />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Holidays and festivals */}
+      <div className="stat-card space-y-3">
+        <p className="section-header flex items-center gap-2">
+          <PartyPopper className="w-4 h-4" style={{ color: 'hsl(var(--cyan))' }} />
+          Holidays &amp; Festivals
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Hari Raya" className="form-input" maxLength={60} />
+          <input type="date" value={draft.date} onChange={e => setDraft({ ...draft, date: e.target.value })} className="form-input" />
+        </div>
+        <div className="grid grid-cols-3 gap-3">
+          {WINDOW_FIELDS.map(([field, label]) => (
+            <div key={field}>
+              <label className="section-header block mb-1.5">{label}</label>
+              <input type="number" min={field === 'duration_days' ? 1 : 0} step="1" value={draft[field]} onChange={e => setDraft({ ...draft, [field]: e.target.value })} className="form-input" />
+            </div>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          <input type="checkbox" checked={draft.yearly} onChange={e => setDraft({ ...draft, yearly: e.target.checked })} />
+          Same date every year (e.g. Merdeka, Christmas)
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={addEvent} className="btn-primary flex items-center justify-center gap-2">
+            <Plus className="w-4 h-4" />
+            Add Event
+          </button>
+          <label className="btn-secondary flex items-center justify-center gap-2 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            Import .ics
+            <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImportICal} />
+          </label>
+        </div>
+        <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          Lunar festivals move each year: add each year's date under the same name. Before/After widen the window for build-up and tail demand.
+        </p>
+
+        {events.map(event => (
+          <div key={event.id} className="pt-3 border-t space-y-2" style={{ borderColor: 'hsl(var(--border))' }}>
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium" style={{ color: 'hsl(var(--foreground))' }}>
+                {event.name}
+                {event.recurrence === 'yearly' && <span className="text-xs font-normal ml-1.5" style={{ color: 'hsl(var(--muted-foreground))' }}>yearly</span>}
+              </span>
+              <button onClick={() => { deleteEvent(event.id); setEvents(getEvents()); done(`${event.name} removed`); }} aria-label={`Remove ${event.name}`}>
+                <X className="w-4 h-4" style={{ color: 'hsl(var(--muted-foreground))' }} />
+              </button>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {event.dates.map(date => (
+                <span key={date} className="flex items-center gap-1 rounded px-2 py-0.5 font-mono text-xs" style={{ background: 'hsl(var(--secondary))', color: 'hsl(var(--foreground))' }}>
+                  {date}
+                  <button onClick={() => removeEventDate(event, date)} aria-label={`Remove ${date}`}>
+                    <X className="w-3 h-3" style={{ color: 'hsl(var(--muted-foreground))' }} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {WINDOW_FIELDS.map(([field, label]) => (
+                <label key={field} className="flex items-center gap-1.5 text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  {label}
+                  <input
+                    type="number" min={field === 'duration_days' ? 1 : 0} step="1" defaultValue={event[field]}
+                    onBlur={e => updateEvent(event, { [field]: Math.max(field === 'duration_days' ? 1 : 0, Math.round(Number(e.target.value) || 0)) })}
+                    className="form-input px-2"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Effect on the series */}
+      {points.length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="stat-card text-center py-3">
+            <p className="section-header text-xs mb-1">Days</p>
+            <p className="metric-value text-base">{points.length}</p>
+          </div>
+          <div className="stat-card text-center py-3">
+            <p className="section-header text-xs mb-1">Closed</p>
+            <p className="metric-value text-base">{closedCount}</p>
+          </div>
+          <div className="stat-card text-center py-3">
+            <p className="section-header text-xs mb-1">Zero Sales</p>
+            <p className="metric-value text-base">{zeroCount}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getConfig, saveConfig } from '@/utils/storage';
+import { listTrash, restoreFromTrash, purgeFromTrash, purgeExpiredTrash } from '@/services/trashService';
+import { useOrders } from '@/hooks/use-orders';
+import { RotateCcw, Trash2, SaveIcon } from 'lucide-react';
+import type { TrashEntry } from '@/types';
+
+export default function Trash() {
+  const config = getConfig();
+  const symbol = config.currency_symbol;
+  const orders = useOrders();
+
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [retention, setRetention] = useState(String(config.trash_retention_days));
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState('');
+
+  const showMsg = useCallback((text: string) => {
+    setMsg(text);
+    setTimeout(() => setMsg(''), 3000);
+  }, []);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const purged = await purgeExpiredTrash();
+      setEntries(await listTrash());
+      if (purged > 0) showMsg(`${purged} expired entr${purged === 1 ? 'y' : 'ies'} purged`);
+    } catch {
+      showMsg('Could not load trash — check your connection');
+    }
+    setLoading(false);
+  }, [showMsg]);
+
+  useEffect(() => { load(); }, [load]);
+
+  // Restored entries stay in trashEntries until the outbox replays the move
+  const liveIds = new Set(orders.map(o => o.id));
+  const visible = entries.filter(e => !liveIds.has(e.order.id));
+
+  const toggle = (trashId: string) => {
+    const next = new Set(selected);
+    if (next.has(trashId)) next.delete(trashId);
+    else next.add(trashId);
+    setSelected(next);
+  };
+
+  const restore = (list: TrashEntry[]) => {
+    let failed = 0;
+    list.forEach(entry => {
+      try {
+        restoreFromTrash(entry);
+      } catch {
+        failed++;
+      }
+    });
+    setSelected(new Set());
+    const restored = list.length - failed;
+    showMsg(`${restored} restored${failed > 0 ? ` · ${failed} blocked by a closed period` : ''}`);
+  };
+
+  const purge = async (entry: TrashEntry) => {
+    if (!confirm(`Permanently delete ${entry.order.item_name} on ${entry.order.date}? This cannot be undone.`)) return;
+    try {
+      await purgeFromTrash(entry);
+      setEntries(entries.filter(e => e.trashId !== entry.trashId));
+      showMsg('Entry permanently deleted');
+    } catch {
+      showMsg('Delete failed — check your connection');
+    }
+  };
+
+  const saveRetention = () => {
+    const days = Math.round(Number(retention));
+    if (!days || days < 1) return showMsg('Retention must be at least 1 day');
+    saveConfig({ ...getConfig(), trash_retention_days: days });
+    showMsg(`Deleted sales will be kept for ${days} days`);
+    load();
+  };
+
+  const expiresOn = (entry: TrashEntry) => {
+    const d = new Date(entry.deleted_at);
+    d.setDate(d.getDate() + config.trash_retention_days);
+    return d.toISOString().slice(0, 10);
+  };
+
+  const selectedEntries = visible.filter(e => selected.has(e.trashId));
+
+  return (
+    <div className="px-4 py-4 space-y-4">
+      <p className="section-header">Trash</p>
+
+      {msg && (
+        <div className="rounded-lg px-3 py-2.5 text-sm" style={{ background: 'hsl(var(--cyan) / 0.1)', border: '1px solid hsl(var(--cyan) / 0.3)', color: 'hsl(var(--cyan))' }}>
+          {msg}
+        </div>
+      )}
+
+      {/* Retention */}
+      <div className="stat-card space-y-2">
+        <label className="section-header block">Retention (days)</label>
+        <div className="flex gap-2">
+          <input type="number" min="1" step="1" value={retention} onChange={e => setRetention(e.target.value)} className="form-input" />
+          <button onClick={saveRetention} className="btn-secondary flex items-center gap-1.5">
+            <SaveIcon className="w-4 h-4" />
+            Save
+          </button>
+        </div>
+        <p className="text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+          Deleted sales are purged automatically once they are older than this.
+        </p>
+      </div>
+
+      {/* Bulk actions */}
+      {visible.length > 0 && (
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-xs" style={{ color: 'hsl(var(--muted-foreground))' }}>
+            <input
+              type="checkbox"
+              checked={selectedEntries.length === visible.length}
+              onChange={e => setSelected(e.target.checked ? new Set(visible.map(v => v.trashId)) : new Set())}
+            />
+            Select all ({visible.length})
+          </label>
+          <button
+            onClick={() => restore(selectedEntries)}
+            disabled={selectedEntries.length === 0}
+            className="btn-primary flex items-center gap-1.5 text-xs"
+            style={{ opacity: selectedEntries.length === 0 ? 0.5 : 1 }}
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Restore {selectedEntries.length || ''}
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-center py-4" style={{ color: 'hsl(var(--muted-foreground))' }}>Loading…</p>
+      ) : visible.length === 0 ? (
+        <div className="stat-card text-center py-8">
+          <Trash2 className="w-10 h-10 mx-auto mb-3" style={{ color: 'hsl(var(--muted-foreground))' }} />
+          <p className="font-medium" style={{ color: 'hsl(var(--foreground))' }}>Trash is empty</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visible.map(entry => (
+            <div key={entry.trashId} className="stat-card flex items-center gap-3 py-3">
+              <input type="checkbox" checked={selected.has(entry.trashId)} onChange={() => toggle(entry.trashId)} />
+              <div className="flex-1">
+                <p className="text-sm font-medium" style={{ color: 'hsl(var(--foreground))' }}>{entry.order.item_name}</p>
+                <p className="text-xs mt-0.5" style={{ color: 'hsl(var(--muted-foreground))' }}>
+                  {entry.order.date} · {entry.order.quantity} × {symbol}{entry.order.unit_price} · deleted {entry.deleted_at.slice(0, 10)} · purges {expiresOn(entry)}
+                </p>
+              </div>
+              <span className="metric-value text-base">{symbol}{entry.order.total_revenue.toFixed(2)}</span>
+              <button onClick={() => restore([entry])} className="p-1 rounded" title="Restore" style={{ color: 'hsl(var(--cyan))' }}>
+                <RotateCcw className="w-4 h-4" />
+              </button>
+              <button onClick={() => purge(entry)} className="p-1 rounded" title="Delete permanently" style={{ color: 'hsl(var(--danger))' }}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,7 +7,8 @@ import {
  where,
  deleteDoc,
  doc,
- getDoc
+ getDoc,
+ setDoc
 
 } from "firebase/firestore";
 
@@ -24,7 +25,7 @@ async (data:any)=>{
 
  if(!user) return;
 
- await addDoc(
+ const ref=await addDoc(
 
  collection(db,"revenueEntries"),
 
@@ -40,18 +41,80 @@ async (data:any)=>{
 
  );
 
+ return ref.id;
+
+};
+
+
+
+// UPDATE ENTRY
+
+export const updateRevenueEntry =
+async (firestoreId:string,data:Record<string,unknown>)=>{
+
+ const user=auth.currentUser;
+
+ if(!user) return;
+
+ await setDoc(
+
+ doc(db,"revenueEntries",firestoreId),
+
+ {
+
+ uid:user.uid,
+
+ ...data,
+
+ updatedAt:new Date()
+
+ },
+
+ {merge:true}
+
+ );
+
+};
+
+
+
+// FIND ENTRY BY ORDER ID
+
+export const findRevenueEntryId =
+async (orderId:string)=>{
+
+ const user=auth.currentUser;
+
+ if(!user) return null;
+
+ const q=query(
+
+ collection(db,"revenueEntries"),
+
+ where("uid","==",user.uid),
+
+ where("id","==",orderId)
+
+ );
+
+ const snap=await getDocs(q);
+
+ return snap.empty ? null : snap.docs[0].id;
+
 };
 
 
 
 // LOAD SALES
+// null when signed out or only the offline cache answered: neither
+// is the whole cloud, so a missing entry must not read as deleted
 
 export const loadRevenueEntries =
 async ()=>{
 
  const user=auth.currentUser;
 
- if(!user) return [];
+ if(!user) return null;
 
  const q=query(
 
@@ -63,6 +126,8 @@ async ()=>{
 
  const snap=await getDocs(q);
 
+ if(snap.metadata.fromCache) return null;
+
  return snap.docs.map(docSnap=>({
 
  ...docSnap.data(),
@@ -98,6 +163,20 @@ async (firestoreId:string)=>{
 
  const data=snap.data();
 
+ if(data.locked){
+
+ // failed-precondition: the outbox gives up instead of retrying
+
+ throw Object.assign(
+
+ new Error("Entry is locked and cannot be deleted"),
+
+ {code:"failed-precondition"}
+
+ );
+
+ }
+
  // add to trash
 
  await addDoc(
@@ -125,13 +204,110 @@ async (firestoreId:string)=>{
 // RESTORE FROM TRASH
 
 export const restoreRevenueEntry=
-async (trashDoc:any)=>{
+async (trashId:string)=>{
 
- await addDoc(
+ const ref=doc(
+
+ db,
+
+ "trashEntries",
+
+ trashId
+
+ );
+
+ const snap=
+
+ await getDoc(ref);
+
+ if(!snap.exists()) return null;
+
+ const { deletedAt, ...data }=snap.data();
+
+ const restored=await addDoc(
 
  collection(db,"revenueEntries"),
 
- trashDoc
+ data
+
+ );
+
+ // remove trash copy
+
+ await deleteDoc(ref);
+
+ return restored.id;
+
+};
+
+
+
+// LOAD TRASH
+
+export const loadTrashEntries =
+async ()=>{
+
+ const user=auth.currentUser;
+
+ if(!user) return [];
+
+ const q=query(
+
+ collection(db,"trashEntries"),
+
+ where("uid","==",user.uid)
+
+ );
+
+ const snap=await getDocs(q);
+
+ return snap.docs.map(docSnap=>({
+
+ ...docSnap.data(),
+
+ trashId:docSnap.id
+
+ }));
+
+};
+
+
+
+// FIND TRASH ENTRY BY ORDER ID
+
+export const findTrashEntryId =
+async (orderId:string)=>{
+
+ const user=auth.currentUser;
+
+ if(!user) return null;
+
+ const q=query(
+
+ collection(db,"trashEntries"),
+
+ where("uid","==",user.uid),
+
+ where("id","==",orderId)
+
+ );
+
+ const snap=await getDocs(q);
+
+ return snap.empty ? null : snap.docs[0].id;
+
+};
+
+
+
+// PERMANENT DELETE
+
+export const purgeTrashEntry =
+async (trashId:string)=>{
+
+ await deleteDoc(
+
+ doc(db,"trashEntries",trashId)
 
  );
 
@@ -0,0 +1,104 @@
+// ============================================================
+// LSRIS Inventory Service — ingredient stock-ins, depletion
+// from sales via product recipes, and stock-take adjustments
+// Stock levels are the running sum of lsris_stock_movements
+// ============================================================
+
+import type { Order, Ingredient, StockMovement } from '@/types';
+import {
+  getRecipe, getIngredients, saveIngredient, getStockMovements, saveStockMovements,
+  addStockMovement, getStockLevels, todayISO
+} from '@/utils/storage';
+
+function movement(fields: Omit<StockMovement, 'id' | 'created_at'>): StockMovement {
+  return { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...fields };
+}
+
+/** Ingredients consumed by an order line, scaled from the recipe batch */
+export function recipeUsage(order: Pick<Order, 'item_id' | 'quantity'>): { ingredient_id: string; quantity: number }[] {
+  const recipe = getRecipe(order.item_id);
+  if (!recipe || recipe.batch_yield <= 0) return [];
+  return recipe.lines
+    .filter(l => l.quantity > 0)
+    .map(l => ({ ingredient_id: l.ingredient_id, quantity: (l.quantity * order.quantity) / recipe.batch_yield }));
+}
+
+/** Replace an order's sale depletion with its current recipe usage */
+export function applySaleDepletion(order: Order): void {
+  replaceSaleDepletion([order]);
+}
+
+/**
+ * applySaleDepletion for many orders in one write; `removed` order ids
+ * get their stock back. A cloud merge can bring in a whole history.
+ */
+export function replaceSaleDepletion(orders: Order[], removed: string[] = []): void {
+  const ids = new Set([...orders.map(o => o.id), ...removed]);
+  const others = getStockMovements().filter(m => !(m.kind === 'sale' && ids.has(m.order_id)));
+  const usage = orders.flatMap(order => recipeUsage(order).map(u => movement({
+    ingredient_id: u.ingredient_id,
+    date: order.date,
+    kind: 'sale',
+    quantity: -u.quantity,
+    order_id: order.id,
+  })));
+  saveStockMovements([...others, ...usage]);
+}
+
+/** Return stock consumed by a deleted order */
+export function clearSaleDepletion(orderId: string): void {
+  saveStockMovements(getStockMovements().filter(m => !(m.kind === 'sale' && m.order_id === orderId)));
+}
+
+/**
+ * Stock-in from a supplier. When a cost is given the ingredient's unit
+ * price is updated to the purchase price so new COGS follow it.
+ */
+export function recordPurchase(input: {
+  ingredient_id: string;
+  quantity: number;
+  cost?: number;
+  date?: string;
+  notes?: string;
+}): StockMovement {
+  if (!(input.quantity > 0)) throw new Error('Purchase quantity must be positive');
+  const m = movement({
+    ingredient_id: input.ingredient_id,
+    date: input.date || todayISO(),
+    kind: 'purchase',
+    quantity: input.quantity,
+    ...(input.cost ? { cost: input.cost } : {}),
+    ...(input.notes ? { notes: input.notes } : {}),
+  });
+  addStockMovement(m);
+
+  const ingredient = getIngredients().find(i => i.id === input.ingredient_id);
+  if (ingredient && input.cost && input.cost > 0) {
+    saveIngredient({ ...ingredient, unit_price: input.cost / input.quantity });
+  }
+  return m;
+}
+
+/** Book the difference between a physical count and the ledger; null if none */
+export function recordStockTake(ingredientId: string, counted: number, notes?: string): StockMovement | null {
+  if (!(counted >= 0)) throw new Error('Counted quantity cannot be negative');
+  const diff = counted - (getStockLevels()[ingredientId] || 0);
+  if (Math.abs(diff) < 1e-9) return null;
+  const m = movement({
+    ingredient_id: ingredientId,
+    date: todayISO(),
+    kind: 'adjustment',
+    quantity: diff,
+    notes: notes || 'Stock-take',
+  });
+  addStockMovement(m);
+  return m;
+}
+
+/** Active ingredients at or below their reorder level */
+export function lowStock(): { ingredient: Ingredient; level: number }[] {
+  const levels = getStockLevels();
+  return getIngredients()
+    .filter(i => !i.archived && i.reorder_level !== undefined && (levels[i.id] || 0) <= i.reorder_level)
+    .map(i => ({ ingredient: i, level: levels[i.id] || 0 }));
+}
@@ -0,0 +1,406 @@
+// ============================================================
+// LSRIS Order Repository — single read/write API over
+// localStorage (lsris_orders) and Firestore (revenueEntries)
+// ============================================================
+
+import type { Order, BasketLine, Transaction, EditableOrderField, OrderChange } from '@/types';
+import {
+  getOrders, saveOrder, saveOrders, deleteOrder, getItem, importOrdersCSV,
+  getTransaction, getTransactions, saveTransaction, saveTransactions, deleteTransaction, nextReceiptNo
+} from '@/utils/storage';
+import { allocateDiscount, transactionsFromOrders } from '@/utils/transactions';
+import { priceOrderCogs } from '@/utils/costing';
+import { currentUserLabel } from './session';
+import { loadRevenueEntries } from './firestoreService';
+import { applySaleDepletion, clearSaleDepletion, replaceSaleDepletion } from './inventoryService';
+import { enqueue, flushOutbox, pendingOrderIds, failedEntries, cancelPendingTrash } from './syncQueue';
+
+type CloudEntry = Partial<Order> & { firestoreId: string };
+
+// ── CHANGE NOTIFICATION ─────────────────────────────────────
+
+const listeners = new Set<() => void>();
+
+export function subscribeOrders(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function notifyOrdersChanged(): void {
+  listeners.forEach(l => l());
+}
+
+// ── RECONCILIATION ──────────────────────────────────────────
+
+function revisionStamp(order: Order): string {
+  return order.updated_at || order.created_at || '';
+}
+
+/** Convert a raw revenueEntries document into an Order */
+function fromCloud(entry: CloudEntry & { uid?: string; createdAt?: unknown; updatedAt?: unknown }): Order {
+  const { uid, createdAt, updatedAt, ...order } = entry;
+  return {
+    ...order,
+    id: entry.id || entry.firestoreId,
+    date: entry.date || '',
+    item_id: entry.item_id || '',
+    item_name: entry.item_name || '',
+    quantity: Number(entry.quantity) || 0,
+    unit_price: Number(entry.unit_price) || 0,
+    total_revenue: Number(entry.total_revenue) || 0,
+    notes: entry.notes || '',
+    created_at: entry.created_at || '',
+  };
+}
+
+/**
+ * Deterministic conflict rule for two copies of the same Order.id:
+ * the later updated_at/created_at wins; on a tie the cloud copy wins,
+ * and between two cloud copies the lower document id wins.
+ */
+function resolveConflict(a: Order, b: Order): Order {
+  const sa = revisionStamp(a), sb = revisionStamp(b);
+  if (sa !== sb) return sa > sb ? a : b;
+  if (!!a.firestoreId !== !!b.firestoreId) return a.firestoreId ? a : b;
+  return (a.firestoreId || '') <= (b.firestoreId || '') ? a : b;
+}
+
+/**
+ * Merge local and cloud orders by Order.id.
+ * Local orders that carry a firestoreId no longer present in the cloud
+ * were removed on another device and are dropped.
+ */
+export function mergeOrders(local: Order[], cloud: CloudEntry[]): Order[] {
+  const merged = new Map<string, Order>();
+  const cloudIds = new Set(cloud.map(c => c.firestoreId));
+
+  cloud.map(fromCloud).forEach(o => {
+    const existing = merged.get(o.id);
+    merged.set(o.id, existing ? resolveConflict(existing, o) : o);
+  });
+
+  local.forEach(o => {
+    if (o.firestoreId && !cloudIds.has(o.firestoreId)) return;
+    const existing = merged.get(o.id);
+    if (!existing) {
+      merged.set(o.id, o);
+      return;
+    }
+    const winner = resolveConflict(o, existing);
+    merged.set(o.id, { ...winner, firestoreId: existing.firestoreId });
+  });
+
+  return [...merged.values()].sort((a, b) =>
+    a.date.localeCompare(b.date) || a.created_at.localeCompare(b.created_at)
+  );
+}
+
+// ── READ ────────────────────────────────────────────────────
+
+/** Synchronous read of the reconciled local copy */
+export function getAllOrders(): Order[] {
+  return getOrders();
+}
+
+/**
+ * Replay the outbox, pull revenueEntries, reconcile with local orders and
+ * persist the result locally, rebuilding transactions from the synced
+ * lines. Local-only orders are queued for upload.
+ * Falls back to the local copy when the cloud is unreachable, signed out
+ * or only answered from its offline cache.
+ */
+export async function syncOrders(): Promise<Order[]> {
+  await flushOutbox();
+
+  let cloud: CloudEntry[] | null;
+  try {
+    cloud = await loadRevenueEntries() as CloudEntry[] | null;
+  } catch {
+    return getOrders();
+  }
+  // Signed out or served from the offline cache: an absent entry proves nothing
+  if (!cloud) return getOrders();
+
+  // Entries still waiting to be trashed must not resurrect locally
+  const trashing = pendingOrderIds('trash');
+  const local = getOrders();
+  const merged = mergeOrders(local, cloud.filter(c => !trashing.has(c.id)));
+
+  // A create the cloud rejected for good is not queued again on every sync
+  const queued = new Set([...pendingOrderIds(), ...failedEntries().map(e => e.order.id)]);
+  merged
+    .filter(o => !o.firestoreId && !queued.has(o.id))
+    .forEach(o => enqueue('create', o));
+
+  saveOrders(merged);
+  depleteMerged(local, getOrders());
+  saveTransactions(transactionsFromOrders(getOrders(), getTransactions()));
+  notifyOrdersChanged();
+  flushOutbox();
+  return merged;
+}
+
+/**
+ * Stock follows lines that a merge brought in or changed and comes back
+ * for lines removed on another device. COGS is not restamped: the device
+ * that recorded a line stamped it, and an unstamped line is priced when
+ * margins are read.
+ */
+function depleteMerged(before: Order[], after: Order[]): void {
+  const prev = new Map(before.map(o => [o.id, o]));
+  const changed = after.filter(o => {
+    const p = prev.get(o.id);
+    prev.delete(o.id);
+    return !p || p.item_id !== o.item_id || p.quantity !== o.quantity || p.date !== o.date;
+  });
+  if (changed.length > 0 || prev.size > 0) replaceSaleDepletion(changed, [...prev.keys()]);
+}
+
+// ── WRITE ───────────────────────────────────────────────────
+// Local storage is written synchronously; the cloud copy goes through
+// the outbox so nothing is lost while offline or signed out.
+
+function storeOrder(input: Order): void {
+  const cogs = input.cogs ?? priceOrderCogs(input);
+  const order = cogs === undefined ? input : { ...input, cogs };
+  saveOrder(order);
+  applySaleDepletion(order);
+  enqueue('create', order);
+}
+
+/**
+ * Save a new order; lines from a recipe item are stamped with their COGS
+ * and deplete ingredient stock.
+ */
+export function recordOrder(input: Order): void {
+  storeOrder(input);
+  notifyOrdersChanged();
+  flushOutbox();
+}
+
+/** CSV import, each row recorded like a new order (see recordOrder) */
+export function importOrders(csv: string): { imported: number; errors: number } {
+  const result = importOrdersCSV(csv, storeOrder);
+  notifyOrdersChanged();
+  flushOutbox();
+  return result;
+}
+
+/**
+ * Record a basket as one Transaction plus one Order per line.
+ * The discount is netted from each line's total_revenue pro rata.
+ */
+export function recordTransaction(
+  lines: BasketLine[],
+  opts: { date: string; discount?: number; notes?: string }
+): Transaction {
+  const now = new Date().toISOString();
+  const gross = lines.map(l => l.quantity * l.unit_price);
+  const subtotal = gross.reduce((a, b) => a + b, 0);
+  const discount = Math.min(Math.max(0, opts.discount || 0), subtotal);
+  const shares = allocateDiscount(gross, discount);
+
+  const tx: Transaction = {
+    id: crypto.randomUUID(),
+    receipt_no: nextReceiptNo(opts.date),
+    date: opts.date,
+    order_ids: [],
+    subtotal,
+    discount,
+    total: subtotal - discount,
+    notes: opts.notes,
+    created_at: now,
+  };
+
+  lines.forEach((line, i) => {
+    const order: Order = {
+      id: crypto.randomUUID(),
+      date: opts.date,
+      item_id: line.item_id,
+      item_name: line.item_name,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      discount: shares[i],
+      total_revenue: gross[i] - shares[i],
+      notes: opts.notes,
+      transaction_id: tx.id,
+      receipt_no: tx.receipt_no,
+      locked: false,
+      created_at: now,
+    };
+    tx.order_ids.push(order.id);
+    recordOrder(order);
+  });
+
+  saveTransaction(tx);
+  return tx;
+}
+
+/** Recompute a transaction's lines and totals from its current orders */
+function refreshTransaction(txId: string, ensure?: Order): void {
+  const existing = getTransaction(txId);
+  if (!existing && !ensure) return;
+  const tx: Transaction = existing || {
+    id: txId,
+    receipt_no: ensure.receipt_no || nextReceiptNo(ensure.date),
+    date: ensure.date,
+    order_ids: [],
+    subtotal: 0,
+    discount: 0,
+    total: 0,
+    created_at: ensure.created_at,
+  };
+
+  const lines = getOrders().filter(o => o.transaction_id === txId);
+  if (lines.length === 0) {
+    deleteTransaction(txId);
+    return;
+  }
+  const subtotal = lines.reduce((s, o) => s + o.quantity * o.unit_price, 0);
+  const discount = lines.reduce((s, o) => s + (o.discount || 0), 0);
+  saveTransaction({ ...tx, order_ids: lines.map(o => o.id), subtotal, discount, total: subtotal - discount });
+}
+
+/**
+ * Re-split a basket's discount over its lines after `edited` changed, so
+ * each share follows the new line totals. The discount is capped at the
+ * new subtotal so no line goes negative. Returns every line, `edited`
+ * included, with its discount and total_revenue brought up to date.
+ */
+function reallocateBasket(edited: Order): Order[] {
+  const lines = getOrders()
+    .filter(o => o.transaction_id === edited.transaction_id)
+    .map(o => (o.id === edited.id ? edited : o));
+  const gross = lines.map(o => o.quantity * o.unit_price);
+  const discount = Math.min(
+    lines.reduce((s, o) => s + (o.discount || 0), 0),
+    gross.reduce((a, b) => a + b, 0)
+  );
+  const shares = allocateDiscount(gross, discount);
+  return lines.map((o, i) => ({
+    ...o,
+    discount: shares[i],
+    total_revenue: o.quantity * o.unit_price - shares[i],
+  }));
+}
+
+const EDITABLE_FIELDS: EditableOrderField[] = ['date', 'item_id', 'quantity', 'unit_price', 'notes'];
+
+/**
+ * Edit an order in place. Recomputes total_revenue, re-splitting any
+ * basket discount over the transaction's lines, appends a revision
+ * describing the changed fields and queues the update for Firestore.
+ * The transaction takes the edited line's date. Returns null when
+ * nothing changed.
+ */
+export function updateOrder(id: string, patch: Partial<Pick<Order, EditableOrderField>>): Order | null {
+  const order = getOrders().find(o => o.id === id);
+  if (!order) return null;
+
+  const changes: OrderChange[] = EDITABLE_FIELDS
+    .filter(f => patch[f] !== undefined && patch[f] !== (order[f] ?? ''))
+    .map(f => ({ field: f, from: order[f] ?? '', to: patch[f] }));
+  if (changes.length === 0) return null;
+
+  const next: Order = { ...order, ...patch };
+  if (patch.item_id && patch.item_id !== order.item_id) {
+    next.item_name = getItem(patch.item_id)?.name || order.item_name;
+  }
+  next.total_revenue = next.quantity * next.unit_price - (next.discount || 0);
+  if (next.item_id !== order.item_id || next.quantity !== order.quantity) {
+    // Firestore rejects undefined fields, so drop cogs rather than blank it
+    const cogs = priceOrderCogs(next);
+    if (cogs === undefined) delete next.cogs;
+    else next.cogs = cogs;
+  }
+  next.updated_at = new Date().toISOString();
+  next.history = [
+    ...(order.history || []),
+    { changed_at: next.updated_at, changed_by: currentUserLabel(), changes },
+  ];
+
+  if (next.transaction_id && getTransaction(next.transaction_id)?.discount) {
+    const before = new Map(getOrders().map(o => [o.id, o.discount]));
+    reallocateBasket(next).forEach(line => {
+      if (line.id === next.id) {
+        next.discount = line.discount;
+        next.total_revenue = line.total_revenue;
+      } else if (line.discount !== before.get(line.id)) {
+        // A sibling's share moved, so its total did too
+        saveOrder(line);
+        enqueue('update', line);
+      }
+    });
+  }
+
+  saveOrder(next);
+  applySaleDepletion(next);
+  if (next.transaction_id) {
+    refreshTransaction(next.transaction_id);
+    const tx = getTransaction(next.transaction_id);
+    if (tx && tx.date !== next.date) saveTransaction({ ...tx, date: next.date });
+  }
+  enqueue('update', next);
+  notifyOrdersChanged();
+  flushOutbox();
+  return next;
+}
+
+/** Lock or unlock an order; the lock state is synced to Firestore */
+export function setOrderLocked(id: string, locked: boolean): Order | null {
+  const order = getOrders().find(o => o.id === id);
+  if (!order || !!order.locked === locked) return null;
+
+  const next: Order = { ...order, locked, updated_at: new Date().toISOString() };
+  saveOrder(next);
+  enqueue('update', next);
+  notifyOrdersChanged();
+  flushOutbox();
+  return next;
+}
+
+export function removeOrder(id: string): Order | null {
+  const order = getOrders().find(o => o.id === id) || null;
+  if (!order) return null;
+
+  deleteOrder(id);
+  clearSaleDepletion(id);
+  if (order.transaction_id) refreshTransaction(order.transaction_id);
+  enqueue('trash', order);
+  notifyOrdersChanged();
+  flushOutbox();
+  return order;
+}
+
+/**
+ * Bring a deleted order back. If its trash has not reached the cloud yet
+ * the queued trash is simply cancelled; otherwise the trashEntries copy is
+ * moved back to revenueEntries through the outbox.
+ */
+export function restoreOrder(order: Order): void {
+  if (pendingOrderIds('trash').has(order.id)) {
+    saveOrder(order);
+    cancelPendingTrash(order.id);
+  } else {
+    const { firestoreId, ...rest } = order;
+    saveOrder(rest);
+    enqueue('restore', rest);
+  }
+  applySaleDepletion(order);
+  if (order.transaction_id) refreshTransaction(order.transaction_id, order);
+  notifyOrdersChanged();
+  flushOutbox();
+}
+
+/** Remove every order that is not locked or in a closed period; returns how many were kept */
+export function clearOrders(): number {
+  let kept = 0;
+  getOrders().forEach(o => {
+    try {
+      removeOrder(o.id);
+    } catch {
+      kept++;
+    }
+  });
+  return kept;
+}
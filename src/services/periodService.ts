@@ -0,0 +1,52 @@
+// ============================================================
+// LSRIS Period Service — month-end close / reopen
+// Closed periods are enforced by the order and expense writes in
+// storage; closing freezes a P&L snapshot, reopening needs a reason
+// ============================================================
+
+import type { Period, PeriodEvent } from '@/types';
+import { getPeriod, savePeriod, getOrders, monthlyCostSplit, getConfig } from '@/utils/storage';
+import { periodSnapshot } from '@/utils/periods';
+import { calendarFromConfig } from '@/utils/timeseries';
+import { notifyOrdersChanged } from './orderRepository';
+import { currentUserLabel } from './session';
+
+function event(action: PeriodEvent['action'], reason?: string): PeriodEvent {
+  return { action, at: new Date().toISOString(), by: currentUserLabel(), ...(reason ? { reason } : {}) };
+}
+
+export function closePeriod(month: string): Period {
+  const current = getPeriod(month);
+  if (current.status === 'closed') return current;
+
+  const closed = event('closed');
+  const period: Period = {
+    ...current,
+    status: 'closed',
+    closed_at: closed.at,
+    closed_by: closed.by,
+    snapshot: periodSnapshot(month, getOrders(), monthlyCostSplit(month), calendarFromConfig(getConfig())),
+    history: [...(current.history || []), closed],
+  };
+  savePeriod(period);
+  notifyOrdersChanged();
+  return period;
+}
+
+/** Reopen a closed month; the reason is kept in the period history */
+export function reopenPeriod(month: string, reason: string): Period {
+  const current = getPeriod(month);
+  if (current.status !== 'closed') return current;
+  const trimmed = reason.trim();
+  if (!trimmed) throw new Error('A reason is required to reopen a closed period');
+
+  // The last snapshot stays for comparison until the month is closed again
+  const period: Period = {
+    ...current,
+    status: 'open',
+    history: [...(current.history || []), event('reopened', trimmed.slice(0, 200))],
+  };
+  savePeriod(period);
+  notifyOrdersChanged();
+  return period;
+}
@@ -0,0 +1,7 @@
+import { auth } from '../firebase';
+
+/** Label recorded against edits, locks and period actions */
+export function currentUserLabel(): string {
+  const user = auth.currentUser;
+  return user?.email || user?.displayName || 'local';
+}
@@ -0,0 +1,251 @@
+// ============================================================
+// LSRIS Sync Queue — persistent outbox of cloud writes
+// Replays pending creates/updates/trash against Firestore when
+// connectivity or auth returns, with exponential backoff
+// ============================================================
+
+import { onAuthStateChanged } from 'firebase/auth';
+import type { Order, OutboxEntry, OutboxOperation } from '@/types';
+import { getOutbox, saveOutbox, getOrders, saveOrder } from '@/utils/storage';
+import { auth } from '../firebase';
+import {
+  saveRevenueEntry, updateRevenueEntry, trashRevenueEntry, findRevenueEntryId,
+  restoreRevenueEntry, findTrashEntryId
+} from './firestoreService';
+
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 10 * 60_000;
+const REQUEST_TIMEOUT_MS = 15_000;
+const POLL_INTERVAL_MS = 30_000;
+
+// ── CHANGE NOTIFICATION ─────────────────────────────────────
+
+const listeners = new Set<() => void>();
+
+export function subscribeOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+function commit(entries: OutboxEntry[]): void {
+  saveOutbox(entries);
+  listeners.forEach(l => l());
+}
+
+export function pendingCount(): number {
+  return getOutbox().filter(e => !e.failed).length;
+}
+
+/** Order ids with a queued cloud write still to be sent */
+export function pendingOrderIds(op?: OutboxOperation): Set<string> {
+  return new Set(getOutbox().filter(e => !e.failed && (!op || e.op === op)).map(e => e.order.id));
+}
+
+/** Writes the cloud rejected for good (e.g. trashing a locked entry) */
+export function failedEntries(): OutboxEntry[] {
+  return getOutbox().filter(e => e.failed);
+}
+
+export function discardFailed(): void {
+  commit(getOutbox().filter(e => !e.failed));
+}
+
+// ── ENQUEUE ─────────────────────────────────────────────────
+
+/** Drop a queued trash that has not reached the cloud yet */
+export function cancelPendingTrash(orderId: string): void {
+  commit(getOutbox().filter(e => !(e.order.id === orderId && e.op === 'trash')));
+}
+
+/**
+ * Queue a cloud write. An update folds into the order's latest pending
+ * entry when that is a create/update. It is queued on its own after a
+ * trash or restore: a cancelled trash must not take the edit with it,
+ * and a restore brings back the trashed copy, not its payload.
+ */
+export function enqueue(op: OutboxOperation, order: Order): void {
+  const now = new Date().toISOString();
+  const entries = getOutbox();
+
+  if (op === 'update') {
+    const pending = entries.filter(e => e.order.id === order.id).pop();
+    if (pending && (pending.op === 'create' || pending.op === 'update')) {
+      pending.order = order;
+      commit(entries);
+      return;
+    }
+  }
+
+  entries.push({
+    id: crypto.randomUUID(),
+    op,
+    order,
+    attempts: 0,
+    queued_at: now,
+    next_attempt_at: now,
+  });
+  commit(entries);
+}
+
+// ── REPLAY ──────────────────────────────────────────────────
+
+function withTimeout<T>(promise: Promise<T>): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Request timed out')), REQUEST_TIMEOUT_MS);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Firestore error codes a retry cannot fix; anything else (offline,
+// timeout, unavailable, signed out) is retried with backoff
+const PERMANENT_CODES = new Set([
+  'permission-denied', 'invalid-argument', 'failed-precondition', 'not-found', 'already-exists', 'out-of-range',
+]);
+
+function isPermanent(err: unknown): boolean {
+  return PERMANENT_CODES.has((err as { code?: string } | null)?.code || '');
+}
+
+function backoffDelay(attempts: number): number {
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+async function resolveFirestoreId(order: Order): Promise<string | null> {
+  return order.firestoreId || await withTimeout(findRevenueEntryId(order.id));
+}
+
+/** Record the cloud id locally and on any later queued ops for the same order */
+function stampFirestoreId(orderId: string, firestoreId: string): void {
+  const local = getOrders().find(o => o.id === orderId);
+  if (local) saveOrder({ ...local, firestoreId });
+
+  const entries = getOutbox();
+  entries.forEach(e => {
+    if (e.order.id === orderId) e.order = { ...e.order, firestoreId };
+  });
+  saveOutbox(entries);
+}
+
+/**
+ * Add the order's revenueEntry unless an earlier attempt already did: a
+ * write that timed out here may still have reached Firestore, and a second
+ * addDoc would leave a duplicate that a trash never removes.
+ */
+async function createOnce(order: Order, payload: Omit<Order, 'firestoreId'>): Promise<string> {
+  const existingId = await withTimeout(findRevenueEntryId(order.id));
+  if (existingId) {
+    await withTimeout(updateRevenueEntry(existingId, payload));
+    return existingId;
+  }
+  const id = await withTimeout(saveRevenueEntry(payload));
+  if (!id) throw new Error('Not signed in');
+  return id;
+}
+
+async function replay(entry: OutboxEntry): Promise<void> {
+  const { firestoreId, ...payload } = entry.order;
+
+  if (entry.op === 'create') {
+    stampFirestoreId(entry.order.id, await createOnce(entry.order, payload));
+    return;
+  }
+
+  // Looked up by order id on every attempt, so the saveRevenueEntry
+  // fallbacks below only add when no entry reached the cloud yet
+  const existingId = await resolveFirestoreId(entry.order);
+
+  if (entry.op === 'update') {
+    if (existingId) {
+      await withTimeout(updateRevenueEntry(existingId, payload));
+    } else {
+      const id = await withTimeout(saveRevenueEntry(payload));
+      if (!id) throw new Error('Not signed in');
+      stampFirestoreId(entry.order.id, id);
+    }
+    return;
+  }
+
+  if (entry.op === 'restore') {
+    // Already back in revenueEntries (e.g. restored on another device)
+    if (existingId) {
+      stampFirestoreId(entry.order.id, existingId);
+      return;
+    }
+    const trashId = await withTimeout(findTrashEntryId(entry.order.id));
+    const id = trashId
+      ? await withTimeout(restoreRevenueEntry(trashId))
+      : await withTimeout(saveRevenueEntry(payload));
+    if (!id) throw new Error('Not signed in');
+    stampFirestoreId(entry.order.id, id);
+    return;
+  }
+
+  if (existingId) await withTimeout(trashRevenueEntry(existingId));
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replay due outbox entries in order. A failed entry blocks later entries
+ * for the same order so their relative order is preserved; one the cloud
+ * rejected for good is marked failed instead and blocks nothing.
+ * `force` ignores backoff (used when connectivity or auth returns).
+ */
+export function flushOutbox(force = false): Promise<void> {
+  if (flushing) return flushing;
+  flushing = runFlush(force).finally(() => { flushing = null; });
+  return flushing;
+}
+
+async function runFlush(force: boolean): Promise<void> {
+  if (!auth.currentUser || !navigator.onLine) return;
+
+  const blocked = new Set<string>();
+  const queue = getOutbox();
+
+  for (const queued of queue) {
+    // Re-read so firestoreId stamps from earlier replays are visible
+    const entry = getOutbox().find(e => e.id === queued.id);
+    if (!entry || entry.failed || blocked.has(entry.order.id)) continue;
+
+    if (!force && entry.next_attempt_at > new Date().toISOString()) {
+      blocked.add(entry.order.id);
+      continue;
+    }
+
+    try {
+      await replay(entry);
+      commit(getOutbox().filter(e => e.id !== entry.id));
+    } catch (err) {
+      const permanent = isPermanent(err);
+      if (!permanent) blocked.add(entry.order.id);
+      const attempts = entry.attempts + 1;
+      commit(getOutbox().map(e => e.id !== entry.id ? e : {
+        ...e,
+        attempts,
+        last_error: err instanceof Error ? err.message : String(err),
+        next_attempt_at: new Date(Date.now() + backoffDelay(attempts)).toISOString(),
+        ...(permanent ? { failed: true } : {}),
+      }));
+    }
+  }
+}
+
+// ── BACKGROUND SYNC ─────────────────────────────────────────
+
+/** Start replaying the outbox on reconnect, sign-in and a polling interval */
+export function startBackgroundSync(): () => void {
+  const onOnline = () => { flushOutbox(true); };
+  window.addEventListener('online', onOnline);
+  const unsubscribeAuth = onAuthStateChanged(auth, user => {
+    if (user) flushOutbox(true);
+  });
+  const timer = setInterval(() => { flushOutbox(); }, POLL_INTERVAL_MS);
+
+  return () => {
+    window.removeEventListener('online', onOnline);
+    unsubscribeAuth();
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,77 @@
+// ============================================================
+// LSRIS Trash Service — browse, restore and purge trashEntries
+// ============================================================
+
+import { onAuthStateChanged } from 'firebase/auth';
+import type { Order, TrashEntry } from '@/types';
+import { getConfig } from '@/utils/storage';
+import { auth } from '../firebase';
+import { loadTrashEntries, purgeTrashEntry } from './firestoreService';
+import { restoreOrder } from './orderRepository';
+
+type RawTrashDoc = Partial<Order> & {
+  trashId: string;
+  uid?: string;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+  deletedAt?: { toDate?: () => Date } | string;
+};
+
+function toISO(value: RawTrashDoc['deletedAt']): string {
+  if (!value) return '';
+  if (typeof value === 'string') return value;
+  return value.toDate ? value.toDate().toISOString() : '';
+}
+
+function fromTrashDoc(raw: RawTrashDoc): TrashEntry {
+  const { trashId, uid, createdAt, updatedAt, deletedAt, ...order } = raw;
+  return {
+    trashId,
+    deleted_at: toISO(deletedAt),
+    order: {
+      ...order,
+      id: order.id || trashId,
+      date: order.date || '',
+      item_id: order.item_id || '',
+      item_name: order.item_name || '',
+      quantity: Number(order.quantity) || 0,
+      unit_price: Number(order.unit_price) || 0,
+      total_revenue: Number(order.total_revenue) || 0,
+      created_at: order.created_at || '',
+    },
+  };
+}
+
+/** Signed-in user's deleted sales, most recently deleted first */
+export async function listTrash(): Promise<TrashEntry[]> {
+  const docs = await loadTrashEntries() as RawTrashDoc[];
+  return docs.map(fromTrashDoc).sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
+
+/** Restore locally and queue the cloud move back to revenueEntries */
+export function restoreFromTrash(entry: TrashEntry): void {
+  restoreOrder(entry.order);
+}
+
+export async function purgeFromTrash(entry: TrashEntry): Promise<void> {
+  await purgeTrashEntry(entry.trashId);
+}
+
+/** Permanently delete entries older than the configured retention period */
+export async function purgeExpiredTrash(
+  retentionDays: number = getConfig().trash_retention_days
+): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 86_400_000).toISOString();
+  const expired = (await listTrash()).filter(e => e.deleted_at && e.deleted_at < cutoff);
+  for (const entry of expired) {
+    await purgeFromTrash(entry);
+  }
+  return expired.length;
+}
+
+/** Purge expired entries on every sign-in, so retention holds without visiting Trash */
+export function startTrashRetention(): () => void {
+  return onAuthStateChanged(auth, user => {
+    if (user) purgeExpiredTrash().catch(() => undefined);
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import type { AnomalyLabel, Order } from "@/types";
+import { excludeLabelled, productAnomalies } from "@/utils/anomalies";
+import { addDays } from "@/utils/timeseries";
+import { sale } from "@/test/fixtures";
+
+const label = (date: string, item_id?: string): AnomalyLabel => ({
+  id: `${date}_${item_id || "all"}`, date, ...(item_id ? { item_id } : {}), cause: "stockout", created_at: "",
+});
+
+describe("anomaly labels and per-product scans", () => {
+  it("imputes labelled days; product labels only touch their own series", () => {
+    const dates = Array.from({ length: 21 }, (_, i) => addDays("2026-03-02", i));
+    const values = dates.map((_, i) => (i === 10 ? 0 : 20));
+
+    expect(excludeLabelled(dates, values, [label(dates[10], "2")], "1")).toEqual(values);
+    expect(excludeLabelled(dates, values, [label(dates[10], "1")], "1")[10]).toBe(20);
+    // Stall-wide labels apply to every product
+    expect(excludeLabelled(dates, values, [label(dates[10])], "1")[10]).toBe(20);
+  });
+
+  it("scores each product against its own history", () => {
+    const orders: Order[] = [];
+    for (let i = 0; i < 28; i++) {
+      const date = addDays("2026-03-02", i);
+      orders.push(sale(date, 200 + (i % 3)));
+      orders.push(sale(date, i === 20 ? 15 : 3 + (i % 2), { item_id: "2", item_name: "Kuih" }));
+    }
+    const flagged = productAnomalies(orders, { closed_weekdays: [], closed_dates: [] });
+    expect(flagged[0]).toMatchObject({ item_id: "2", date: addDays("2026-03-02", 20), value: 15 });
+    expect(flagged.some(a => a.item_id === "1")).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { recipeUnitCost, productGrossMargins, productMixInputs } from "@/utils/costing";
+import { getIngredients, saveRecipe } from "@/utils/storage";
+import { order } from "@/test/fixtures";
+
+describe("recipe COGS", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("prices one unit as batch cost over batch yield", () => {
+    const recipe = {
+      item_id: "1",
+      batch_yield: 20,
+      lines: [{ ingredient_id: "flour", quantity: 1000 }, { ingredient_id: "gas", quantity: 10 }],
+      updated_at: "",
+    };
+    // 1000 g × 0.0032 + 10 min × 0.06 = 3.80 per batch
+    expect(recipeUnitCost(recipe, getIngredients())).toBeCloseTo(0.19);
+  });
+
+  it("prefers stamped COGS and falls back to the current recipe", () => {
+    saveRecipe({ item_id: "1", batch_yield: 10, lines: [{ ingredient_id: "flour", quantity: 1000 }], updated_at: "" });
+    const [roti] = productGrossMargins([order, { ...order, id: "b", cogs: 1 }]);
+    expect(roti.cogs).toBeCloseTo(3.2 + 1);
+    expect(roti.gross_margin).toBeCloseTo(((24 - 4.2) / 24) * 100);
+  });
+
+  it("leaves products without a recipe uncosted", () => {
+    expect(productGrossMargins([order])[0].costed).toBe(false);
+  });
+});
+
+describe("product mix inputs", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("costs recipe products by COGS and spreads the rest over the others", () => {
+    const kuih = { ...order, id: "b", item_id: "2", item_name: "Kuih", quantity: 5, total_revenue: 10 };
+    const rows = productMixInputs([{ ...order, cogs: 2 }, kuih], 12);
+    expect(rows.find(r => r.id === "1")?.unit_variable_cost).toBeCloseTo(0.2);
+    // (12 - 2) left over for Kuih's 5 units
+    expect(rows.find(r => r.id === "2")?.unit_variable_cost).toBeCloseTo(2);
+  });
+});
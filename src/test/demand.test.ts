@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import type { Item } from "@/types";
+import { demandForecast } from "@/utils/demand";
+import { addDays } from "@/utils/timeseries";
+import { sale } from "@/test/fixtures";
+
+const item = (id: string, default_price: number): Item => ({
+  id, name: id, sku: id, category: "Bread", unit: "pcs", default_price, archived: false,
+});
+
+describe("demand forecast", () => {
+  it("prices flat unit demand at the current list price, not the historic one", () => {
+    // 14 days of 10 pcs sold at 1.00; the list price has since gone up to 1.50
+    const orders = Array.from({ length: 14 }, (_, i) => sale(addDays("2026-03-01", i), 10, { item_id: "roti", item_name: "roti" }));
+    const f = demandForecast(orders, [item("roti", 1.5), item("naan", 2)], "2026-03-15", 3, 14);
+
+    expect(f.dates).toEqual(["2026-03-15", "2026-03-16", "2026-03-17"]);
+    expect(f.products.map(p => p.item_id)).toEqual(["roti"]);
+    f.units.forEach(u => expect(u).toBeCloseTo(10));
+    f.revenue.forEach(r => expect(r).toBeCloseTo(15));
+    expect(f.products[0].total_revenue).toBeCloseTo(45);
+  });
+
+  it("leaves today's partial sales out of the history", () => {
+    const orders = [
+      ...Array.from({ length: 14 }, (_, i) => sale(addDays("2026-03-01", i), 10, { item_id: "roti", item_name: "roti" })),
+      sale("2026-03-15", 1, { item_id: "roti", item_name: "roti" }),
+    ];
+    const f = demandForecast(orders, [item("roti", 1)], "2026-03-16", 3, 14, 7, 0.3, undefined, [], [], "2026-03-15");
+    f.units.forEach(u => expect(u).toBeCloseTo(10));
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import type { CalendarEvent } from "@/types";
+import { eventIndicators, eventImpacts, mergeICalEvents, parseICal } from "@/utils/events";
+import { generateForecast } from "@/utils/math";
+import { addDays } from "@/utils/timeseries";
+
+const event = (fields: Partial<CalendarEvent>): CalendarEvent => ({
+  id: "e1",
+  name: "Hari Raya",
+  dates: ["2026-03-20"],
+  recurrence: "none",
+  duration_days: 1,
+  pre_days: 0,
+  post_days: 0,
+  created_at: "",
+  ...fields,
+});
+
+const days = (start: string, n: number) => Array.from({ length: n }, (_, i) => addDays(start, i));
+
+describe("event calendar", () => {
+  it("expands pre/post windows and yearly recurrences into regressor rows", () => {
+    const dates = days("2026-03-17", 7);
+    const raya = event({ duration_days: 2, pre_days: 2, post_days: 1 });
+    expect(eventIndicators([raya], dates)[0]).toEqual([0, 1, 1, 1, 1, 1, 0]);
+
+    const merdeka = event({ dates: ["2024-08-31"], recurrence: "yearly" });
+    expect(eventIndicators([merdeka], ["2026-08-30", "2026-08-31", "2026-09-01"])[0]).toEqual([0, 1, 0]);
+    // Not before the first listed year
+    expect(eventIndicators([merdeka], ["2023-08-31"])[0]).toEqual([0]);
+  });
+
+  it("reads folded all-day VEVENTs and groups them by name", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20260320",
+      "DTEND;VALUE=DATE:20260322",
+      "SUMMARY:Hari Raya Aidil",
+      " fitri",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20270310",
+      "SUMMARY:Hari Raya Aidilfitri",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20250831",
+      "RRULE:FREQ=YEARLY",
+      "SUMMARY:Merdeka\\, National Day",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const parsed = parseICal(ics);
+    expect(parsed).toEqual([
+      { name: "Hari Raya Aidilfitri", date: "2026-03-20", duration_days: 2, recurrence: "none" },
+      { name: "Hari Raya Aidilfitri", date: "2027-03-10", duration_days: 1, recurrence: "none" },
+      { name: "Merdeka, National Day", date: "2025-08-31", duration_days: 1, recurrence: "yearly" },
+    ]);
+
+    const merged = mergeICalEvents([event({ name: "hari raya aidilfitri", dates: ["2025-03-31"] })], parsed, "now");
+    expect(merged).toHaveLength(2);
+    expect(merged[0].id).toBe("e1");
+    expect(merged[0].dates).toEqual(["2025-03-31", "2026-03-20", "2027-03-10"]);
+    expect(merged[1].recurrence).toBe("yearly");
+  });
+
+  it("estimates an event's lift and adds it back on future event days", () => {
+    const history = days("2026-01-05", 112);
+    const future = days(addDays(history[history.length - 1], 1), 14);
+    const raya = event({ dates: ["2026-01-20", "2026-03-03", "2026-04-14", future[5]], duration_days: 2 });
+    const rows = eventIndicators([raya], history)[0];
+    const values = history.map((_, t) => 100 + [0, 5, 10, 5, 0, 20, 30][t % 7] + 60 * rows[t]);
+
+    const [impact] = eventImpacts([raya], history, values);
+    expect(impact.days).toBe(6);
+    expect(Math.abs(impact.effect - 60)).toBeLessThan(1);
+
+    const regressors = { history: [rows], future: eventIndicators([raya], future) };
+    const plain = generateForecast(values, 14, 7, 0.3, 7);
+    const lifted = generateForecast(values, 14, 7, 0.3, 7, regressors);
+    expect(lifted[5].linear - lifted[4].linear).toBeGreaterThan(50);
+    expect(lifted[6].linear - lifted[5].linear).toBeLessThan(50);
+    // Stripping the spikes lowers the baseline on ordinary days
+    expect(lifted[0].ema).toBeLessThan(plain[0].ema);
+  });
+});
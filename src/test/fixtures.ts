@@ -0,0 +1,23 @@
+import type { Order } from "@/types";
+
+/** One synced-shape order line: 10 Roti at 1.20 on 2026-01-05 */
+export const order: Order = {
+  id: "a",
+  date: "2026-01-05",
+  item_id: "1",
+  item_name: "Roti",
+  quantity: 10,
+  unit_price: 1.2,
+  total_revenue: 12,
+  created_at: "2026-01-05T08:00:00.000Z",
+};
+
+/** A day's sale of one product at 1.00 a unit unless `fields` says otherwise; one id per date and product */
+export function sale(date: string, quantity: number, fields: Partial<Order> = {}): Order {
+  const line: Order = { ...order, date, quantity, unit_price: 1, created_at: `${date}T08:00:00.000Z`, ...fields };
+  return {
+    ...line,
+    id: fields.id || `${date}_${line.item_id}`,
+    total_revenue: fields.total_revenue ?? quantity * line.unit_price,
+  };
+}
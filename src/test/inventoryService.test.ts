@@ -0,0 +1,35 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  applySaleDepletion, clearSaleDepletion, recordPurchase, recordStockTake, lowStock
+} from "@/services/inventoryService";
+import { getStockLevels, getIngredients, saveIngredient, saveRecipe } from "@/utils/storage";
+import { order } from "@/test/fixtures";
+
+describe("ingredient inventory", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    saveRecipe({ item_id: "1", batch_yield: 20, lines: [{ ingredient_id: "flour", quantity: 1000 }], updated_at: "" });
+  });
+
+  it("depletes stock through the recipe and replaces it on edit", () => {
+    recordPurchase({ ingredient_id: "flour", quantity: 5000, cost: 15 });
+    applySaleDepletion(order);
+    expect(getStockLevels().flour).toBe(4500);
+    applySaleDepletion({ ...order, quantity: 20 });
+    expect(getStockLevels().flour).toBe(4000);
+    clearSaleDepletion("a");
+    expect(getStockLevels().flour).toBe(5000);
+  });
+
+  it("updates the unit price from the purchase cost", () => {
+    recordPurchase({ ingredient_id: "flour", quantity: 5000, cost: 20 });
+    expect(getIngredients().find(i => i.id === "flour")?.unit_price).toBeCloseTo(0.004);
+  });
+
+  it("books stock-take differences and flags low stock", () => {
+    recordPurchase({ ingredient_id: "flour", quantity: 5000 });
+    expect(recordStockTake("flour", 800)?.quantity).toBe(-4200);
+    saveIngredient({ ...getIngredients()[0], reorder_level: 1000 });
+    expect(lowStock().map(l => l.ingredient.id)).toEqual(["flour"]);
+  });
+});
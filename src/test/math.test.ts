@@ -0,0 +1,292 @@
+import { describe, it, expect } from "vitest";
+import {
+  breakEvenAnalysis, productMixBreakEven, holtWinters, fitHoltWinters, fitArima, autoArima,
+  errorMetrics, walkForwardBacktest, generateForecast, forecastCI, stdDev, quantile, quantileIntervals,
+  robustAnomalies, imputePoints, detectChangePoints, decompose
+} from "@/utils/math";
+
+describe("breakEvenAnalysis", () => {
+  it("treats a purely fixed cost base as revenue break-even", () => {
+    expect(breakEvenAnalysis(800, 1000).break_even).toBe(1000);
+  });
+
+  it("divides fixed cost by the contribution margin ratio", () => {
+    const result = breakEvenAnalysis(1000, 600, 400);
+    expect(result.contribution_margin).toBeCloseTo(0.6);
+    expect(result.break_even).toBeCloseTo(1000);
+    expect(result.profit).toBe(0);
+  });
+
+  it("reports an unreachable break-even when variable cost exceeds revenue", () => {
+    expect(breakEvenAnalysis(100, 50, 150).break_even).toBe(Infinity);
+  });
+});
+
+describe("productMixBreakEven", () => {
+  it("weights unit contribution by sales mix", () => {
+    const result = productMixBreakEven(90, [
+      { id: "roti", units: 300, revenue: 360, unit_variable_cost: 0.6 },
+      { id: "chapati", units: 100, revenue: 150, unit_variable_cost: 0.6 },
+    ]);
+    // CM: roti 0.6, chapati 0.9 at a 75/25 mix → 0.675 per unit
+    expect(result.weighted_unit_contribution).toBeCloseTo(0.675);
+    expect(result.break_even_units).toBeCloseTo(90 / 0.675);
+    expect(result.products[0].break_even_units).toBeCloseTo((90 / 0.675) * 0.75);
+    expect(result.contribution_earned).toBeCloseTo(270);
+  });
+});
+
+describe("Holt-Winters", () => {
+  const week = [10, 12, 14, 13, 20, 30, 25];
+
+  it("reproduces a stable additive weekly pattern", () => {
+    const values = [...week, ...week, ...week, ...week];
+    const fit = fitHoltWinters(values, 7, "additive");
+    expect(fit).not.toBeNull();
+    fit!.forecast(7).forEach((v, i) => expect(v).toBeCloseTo(week[i], 1));
+  });
+
+  it("prefers the multiplicative model when the season scales with the level", () => {
+    const values = Array.from({ length: 42 }, (_, t) => (100 + 5 * t) * (week[t % 7] / 18));
+    const fit = fitHoltWinters(values);
+    expect(fit!.mode).toBe("multiplicative");
+    const expected = (100 + 5 * 42) * (week[0] / 18);
+    expect(Math.abs(fit!.forecast(1)[0] / expected - 1)).toBeLessThan(0.01);
+  });
+
+  it("needs two full seasons and positive data for the multiplicative form", () => {
+    expect(fitHoltWinters(week)).toBeNull();
+    expect(holtWinters([0, ...week, ...week], 0.3, 0.1, 0.1, "multiplicative")).toBeNull();
+  });
+});
+
+describe("ARIMA", () => {
+  // Deterministic noise so fits are repeatable
+  const noise = (n: number) => {
+    let seed = 7;
+    return Array.from({ length: n }, () => {
+      seed = (seed * 16807) % 2147483647;
+      return seed / 2147483647 - 0.5;
+    });
+  };
+
+  it("recovers an AR(1) coefficient and selects the order by AIC", () => {
+    const e = noise(300);
+    const y = [0];
+    for (let t = 1; t < 300; t++) y.push(0.7 * y[t - 1] + e[t]);
+    const fit = fitArima(y, { p: 1, d: 0, q: 0, P: 0, D: 0, Q: 0, season: 7 });
+    expect(Math.abs(fit!.ar[0].coef - 0.7)).toBeLessThan(0.1);
+    expect(autoArima(y)!.order).toMatchObject({ p: 1, d: 0, q: 0, D: 0 });
+  });
+
+  it("differences a trending weekly series and widens intervals with horizon", () => {
+    const week = [10, 12, 14, 13, 20, 30, 25];
+    const e = noise(56);
+    const y = Array.from({ length: 56 }, (_, t) => 100 + t + week[t % 7] + 2 * e[t]);
+    const fit = autoArima(y)!;
+    expect(fit.order.d + fit.order.D).toBeGreaterThan(0);
+
+    const path = fit.forecast(14);
+    // Same weekday next week: one more week of trend on top of the pattern
+    expect(path[0].mean).toBeCloseTo(100 + 56 + week[0], -1);
+    const widths = path.map(p => p.upper - p.lower);
+    widths.slice(1).forEach((w, i) => expect(w).toBeGreaterThanOrEqual(widths[i]));
+    expect(widths[13]).toBeGreaterThan(widths[0]);
+  });
+
+  it("needs two weeks of data", () => {
+    expect(autoArima([1, 2, 3, 4, 5])).toBeNull();
+  });
+});
+
+describe("walkForwardBacktest", () => {
+  it("scores sMAPE symmetrically and skips all-zero pairs", () => {
+    const m = errorMetrics([100, 0], [50, 0]);
+    expect(m.smape).toBeCloseTo((2 * 50) / 150 * 100);
+    expect(m.mape).toBeCloseTo(50);
+  });
+
+  it("evaluates every model on held-out days and ranks a weekly series towards seasonal models", () => {
+    const week = [10, 12, 14, 13, 20, 30, 25];
+    // A little jitter: an exactly periodic series leaves ARIMA nothing to fit
+    const y = Array.from({ length: 42 }, (_, t) => week[t % 7] + ((t * 37) % 11) / 11);
+    const results = walkForwardBacktest(y, { horizon: 7, maxOrigins: 14 });
+
+    expect(results.map(r => r.model).sort()).toEqual(["arima", "ema", "hw", "linear", "ma", "wma"]);
+    expect(results[0].origins).toBe(14);
+    expect(results[0].by_horizon).toHaveLength(7);
+    expect(["hw", "arima"]).toContain(results[0].model);
+    expect(results[0].overall.mae).toBeLessThan(results.find(r => r.model === "ma")!.overall.mae);
+  });
+
+  it("needs more data than the minimum training window", () => {
+    expect(walkForwardBacktest([1, 2, 3], { minTrain: 14 })).toEqual([]);
+  });
+
+  it("trains on at most maxTrain recent days", () => {
+    // An old level the capped fits never see
+    const y = Array.from({ length: 60 }, (_, t) => (t < 20 ? 500 : 100));
+    const linear = (maxTrain?: number) =>
+      walkForwardBacktest(y, { maxTrain, maxOrigins: 14 }).find(r => r.model === "linear")!.overall.mae;
+    expect(linear(14)).toBeCloseTo(0);
+    expect(linear()).toBeGreaterThan(1);
+  });
+
+  it("leaves models that cannot be fitted out instead of scoring the trend for them", () => {
+    const y = Array.from({ length: 30 }, (_, t) => 10 + (t % 5));
+    expect(generateForecast(y.slice(0, 10), 1, 7, 0.3, 7)[0].hw).toBeNaN();
+    expect(errorMetrics([10, 20], [NaN, 18]).mae).toBeCloseTo(2);
+
+    // 30 days never hold two 20-day seasons
+    const models = walkForwardBacktest(y, { season: 20 }).map(r => r.model);
+    expect(models).not.toContain("hw");
+    expect(models).not.toContain("arima");
+  });
+
+  it("uses Holt-Winters and ARIMA fits it is given instead of refitting", () => {
+    const y = Array.from({ length: 30 }, (_, t) => 10 + (t % 5));
+    expect(generateForecast(y, 1, 7, 0.3, 5, undefined, { hw: null, arima: null })[0]).toMatchObject({ hw: NaN, arima: NaN });
+  });
+});
+
+describe("prediction intervals", () => {
+  it("widens the trend interval with horizon", () => {
+    const y = [5, 9, 6, 11, 8, 13, 9, 14, 12, 15, 13, 18, 14, 19];
+    const widths = generateForecast(y, 14).map(f => f.upper - f.lower);
+    widths.slice(1).forEach((w, i) => expect(w).toBeGreaterThan(widths[i]));
+  });
+
+  it("inflates the interval for autocorrelated residuals", () => {
+    const alternating = [1, -1, 1, -1, 1, -1, 1, -1];
+    const persistent = [1, 1, 1, 1, -1, -1, -1, -1];
+    const a = forecastCI(0, alternating, 0.5);
+    const p = forecastCI(0, persistent, 0.5);
+    expect(p.upper).toBeGreaterThan(a.upper);
+    expect(forecastCI(10, alternating).upper).toBeCloseTo(10 + 1.96 * stdDev(alternating));
+  });
+
+  it("builds nested empirical quantile bands around the point forecast", () => {
+    expect(quantile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+    expect(quantile([1, 2, 3, 4, 5], 0.1)).toBeCloseTo(1.4);
+
+    const residuals = [[-4, -2, -1, 0, 1, 2, 4, 6, -3, 3]];
+    const [[b50, b80, b95]] = quantileIntervals([100], residuals);
+    expect(b50.level).toBe(50);
+    expect(b95.lower).toBeLessThan(b80.lower);
+    expect(b80.lower).toBeLessThan(b50.lower);
+    expect(b50.upper).toBeLessThan(b80.upper);
+    expect(b50.lower).toBeCloseTo(100 + quantile(residuals[0], 0.25));
+  });
+});
+
+describe("robust anomaly detection", () => {
+  // Steady growth with a weekly pattern, one spike and one slump
+  const pattern = [0, 4, 8, 4, 0, 12, 16];
+  const values = Array.from({ length: 70 }, (_, t) => 50 + 2 * t + pattern[t % 7]);
+  values[40] += 80;
+  values[55] -= 60;
+  const dates = values.map((_, t) => `d${t}`);
+
+  it("flags local outliers where the global z-score flags the growth", () => {
+    const global = robustAnomalies(dates, values, { method: "zscore", threshold: 1.5 });
+    expect(global.slice(0, 7).some(a => a.is_anomaly)).toBe(true);
+
+    (["mad", "stl", "iqr"] as const).forEach(method => {
+      const flagged = robustAnomalies(dates, values, { method }).filter(a => a.is_anomaly).map(a => a.date);
+      expect(flagged).toContain("d40");
+      expect(flagged).toContain("d55");
+      expect(flagged).not.toContain("d0");
+    });
+  });
+
+  it("flags more days at a lower threshold", () => {
+    const count = (threshold: number) => robustAnomalies(dates, values, { method: "mad", threshold }).filter(a => a.is_anomaly).length;
+    expect(count(1.5)).toBeGreaterThanOrEqual(count(3));
+    expect(count(6)).toBeLessThanOrEqual(count(3));
+  });
+
+  it("imputes masked points from the same seasonal position", () => {
+    const weekly = [10, 20, 30, 10, 20, 30, 10, 99, 30];
+    const mask = weekly.map((_, i) => i === 7);
+    expect(imputePoints(weekly, mask, 3)).toEqual([10, 20, 30, 10, 20, 30, 10, 20, 30]);
+  });
+});
+
+describe("detectChangePoints", () => {
+  // Deterministic noise so the test does not depend on a seed
+  const noise = (t: number) => {
+    const x = Math.sin(t * 12.9898) * 43758.5453;
+    return (x - Math.floor(x) - 0.5) * 6;
+  };
+
+  it("returns one change with before/after stats for a level shift", () => {
+    const values = Array.from({ length: 60 }, (_, t) => (t < 30 ? 50 : 80) + noise(t));
+    const { segments, changepoints } = detectChangePoints(values);
+    expect(changepoints.map(c => c.index)).toEqual([30]);
+    expect(segments.map(s => [s.start, s.end])).toEqual([[0, 30], [30, 60]]);
+    expect(changepoints[0].before.mean).toBeCloseTo(50, 0);
+    expect(changepoints[0].mean_shift_pct).toBeGreaterThan(50);
+  });
+
+  it("finds a change in variance at the same mean", () => {
+    const values = Array.from({ length: 60 }, (_, t) => 50 + noise(t) * (t < 35 ? 1 : 6));
+    const [change] = detectChangePoints(values).changepoints;
+    expect(Math.abs(change.index - 35)).toBeLessThanOrEqual(2);
+    expect(change.std_ratio).toBeGreaterThan(3);
+  });
+
+  it("keeps a stationary series in one segment", () => {
+    const values = Array.from({ length: 60 }, (_, t) => 50 + noise(t));
+    expect(detectChangePoints(values).changepoints).toEqual([]);
+    expect(detectChangePoints(values.slice(0, 10)).segments).toHaveLength(1);
+  });
+});
+
+describe("decompose", () => {
+  const weekly = [0.8, 0.9, 1.0, 1.0, 1.1, 1.3, 0.9];
+  const dates = (n: number) => Array.from({ length: n }, (_, t) => new Date(Date.UTC(2025, 0, 1 + t)).toISOString().slice(0, 10));
+
+  it("tracks non-linear growth better than the OLS trend", () => {
+    // Logistic growth with an additive weekly pattern
+    const values = Array.from({ length: 84 }, (_, t) => 200 / (1 + Math.exp(-(t - 42) / 8)) + 20 * (weekly[t % 7] - 1));
+    const d = dates(84);
+    const ols = decompose(d, values, { method: "ols" });
+    const classical = decompose(d, values, { method: "classical" });
+    const stl = decompose(d, values, { method: "stl" });
+    expect(stl!.residual_variance).toBeLessThan(ols!.residual_variance / 10);
+    expect(classical!.residual_variance).toBeLessThan(ols!.residual_variance / 10);
+    expect(Number.isNaN(classical!.points[0].trend)).toBe(true);
+    expect(stl!.has_monthly).toBe(false);
+  });
+
+  it("recovers multiplicative seasonal factors and refuses zero days", () => {
+    const values = Array.from({ length: 70 }, (_, t) => (100 + 3 * t) * weekly[t % 7]);
+    const d = dates(70);
+    const stl = decompose(d, values, { method: "stl", mode: "multiplicative" });
+    stl!.points.slice(21, 28).forEach((p, i) => expect(p.seasonal).toBeCloseTo(weekly[(21 + i) % 7], 1));
+    const additive = decompose(d, values, { method: "stl" });
+    expect(stl!.residual_variance).toBeLessThan(additive!.residual_variance);
+
+    expect(decompose(d, values.map((v, t) => (t === 5 ? 0 : v)), { mode: "multiplicative" })).toBeNull();
+    expect(decompose(d, values, { method: "ols", mode: "multiplicative" })).toBeNull();
+  });
+
+  it("fits OLS from 3 points but waits two seasons for classical and STL", () => {
+    const d = dates(5);
+    const values = [10, 12, 11, 13, 12];
+    expect(decompose(d, values, { method: "ols" })?.points).toHaveLength(5);
+    expect(decompose(d, values, { method: "classical" })).toBeNull();
+    expect(decompose(d, values, { method: "stl" })).toBeNull();
+    expect(decompose(d.slice(0, 2), values.slice(0, 2), { method: "ols" })).toBeNull();
+  });
+
+  it("adds a month-of-year index once a year of data exists", () => {
+    const d = dates(400);
+    const values = d.map((date, t) => 100 + 0.05 * t + (date.slice(5, 7) === "12" ? 40 : 0) + 10 * (weekly[t % 7] - 1));
+    const result = decompose(d, values, { method: "stl" })!;
+    expect(result.has_monthly).toBe(true);
+    const dec = result.points.find(p => p.date === "2025-12-15")!;
+    const jun = result.points.find(p => p.date === "2025-06-15")!;
+    expect(dec.monthly - jun.monthly).toBeGreaterThan(30);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/firebase", () => ({
+  auth: { currentUser: null },
+}));
+
+vi.mock("@/services/firestoreService", () => ({
+  loadRevenueEntries: vi.fn(async () => []),
+}));
+
+vi.mock("@/services/syncQueue", () => ({
+  enqueue: vi.fn(),
+  flushOutbox: vi.fn(async () => undefined),
+  pendingOrderIds: vi.fn(() => new Set()),
+  failedEntries: vi.fn(() => []),
+}));
+
+import { importOrders, mergeOrders, recordTransaction, syncOrders, updateOrder } from "@/services/orderRepository";
+import { loadRevenueEntries } from "@/services/firestoreService";
+import { enqueue } from "@/services/syncQueue";
+import {
+  getOrders, getStockLevels, getTransactions, nextReceiptNo, saveOrders, saveRecipe, saveTransactions
+} from "@/utils/storage";
+import { order } from "@/test/fixtures";
+
+describe("mergeOrders", () => {
+  it("keeps local-only and cloud-only orders", () => {
+    const merged = mergeOrders([order], [{ ...order, id: "b", firestoreId: "f1" }]);
+    expect(merged.map(o => o.id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("prefers the most recently updated copy", () => {
+    const local = { ...order, quantity: 20, updated_at: "2026-01-06T00:00:00.000Z" };
+    const merged = mergeOrders([local], [{ ...order, firestoreId: "f1" }]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].quantity).toBe(20);
+    expect(merged[0].firestoreId).toBe("f1");
+  });
+
+  it("lets the cloud copy win a tie", () => {
+    const merged = mergeOrders([{ ...order, quantity: 5 }], [{ ...order, firestoreId: "f1" }]);
+    expect(merged[0].quantity).toBe(10);
+  });
+
+  it("drops synced local orders that were removed from the cloud", () => {
+    const merged = mergeOrders([{ ...order, firestoreId: "gone" }], []);
+    expect(merged).toHaveLength(0);
+  });
+});
+
+describe("syncOrders", () => {
+  it("keeps synced orders when signed out or served from the offline cache", async () => {
+    saveOrders([{ ...order, firestoreId: "f1" }]);
+    vi.mocked(loadRevenueEntries).mockResolvedValueOnce(null);
+    await syncOrders();
+    expect(getOrders()).toHaveLength(1);
+  });
+
+  it("never drops a locked order, even when the cloud is empty", async () => {
+    saveOrders([{ ...order, firestoreId: "f1", locked: true }, { ...order, id: "b", firestoreId: "f2" }]);
+    vi.mocked(loadRevenueEntries).mockResolvedValueOnce([]);
+    await syncOrders();
+    expect(getOrders().map(o => o.id)).toEqual(["a"]);
+  });
+
+  it("rebuilds another device's receipts so numbers don't collide", async () => {
+    saveOrders([]);
+    saveTransactions([]);
+    const line = { ...order, id: "b", transaction_id: "t1", receipt_no: "R-20260105-002" };
+    vi.mocked(loadRevenueEntries).mockResolvedValueOnce([{ ...line, firestoreId: "f2" }]);
+    await syncOrders();
+    expect(getTransactions()).toMatchObject([{ id: "t1", receipt_no: "R-20260105-002", order_ids: ["b"], total: 12 }]);
+    expect(nextReceiptNo("2026-01-05")).toBe("R-20260105-003");
+  });
+
+  it("depletes stock for lines another device recorded and returns it when they are removed", async () => {
+    localStorage.clear();
+    saveRecipe({ item_id: "1", batch_yield: 20, lines: [{ ingredient_id: "flour", quantity: 1000 }], updated_at: "" });
+
+    vi.mocked(loadRevenueEntries).mockResolvedValueOnce([{ ...order, firestoreId: "f1" }]);
+    await syncOrders();
+    expect(getStockLevels().flour).toBe(-500);
+
+    vi.mocked(loadRevenueEntries).mockResolvedValueOnce([]);
+    await syncOrders();
+    expect(getStockLevels()).toEqual({});
+  });
+});
+
+describe("importOrders", () => {
+  it("records each row like a sale: COGS stamped, stock depleted, queued for the cloud", () => {
+    localStorage.clear();
+    saveRecipe({ item_id: "1", batch_yield: 20, lines: [{ ingredient_id: "flour", quantity: 1000 }], updated_at: "" });
+
+    const result = importOrders("id,date,item_id,item_name,quantity,unit_price,total_revenue\nr1,2026-01-05,1,Roti,10,1.2,12");
+    expect(result).toEqual({ imported: 1, errors: 0 });
+    expect(getOrders()[0].cogs).toBeCloseTo(1.6);
+    expect(getStockLevels().flour).toBe(-500);
+    expect(enqueue).toHaveBeenCalledWith("create", expect.objectContaining({ id: "r1" }));
+  });
+});
+
+describe("updateOrder", () => {
+  it("recomputes revenue and appends a revision", () => {
+    saveOrders([order]);
+    const next = updateOrder("a", { quantity: 15, notes: "" });
+    expect(next?.total_revenue).toBeCloseTo(18);
+    expect(next?.history).toHaveLength(1);
+    expect(next?.history?.[0].changes).toEqual([{ field: "quantity", from: 10, to: 15 }]);
+    expect(getOrders()[0].quantity).toBe(15);
+  });
+
+  it("ignores edits that change nothing", () => {
+    saveOrders([order]);
+    expect(updateOrder("a", { quantity: 10 })).toBeNull();
+  });
+
+  it("re-splits the basket discount and moves the receipt with the line", () => {
+    saveOrders([]);
+    saveTransactions([]);
+    const tx = recordTransaction(
+      [{ item_id: "1", item_name: "Roti", quantity: 2, unit_price: 1 }, { item_id: "2", item_name: "Kuih", quantity: 2, unit_price: 1 }],
+      { date: "2026-01-05", discount: 2 }
+    );
+    const [roti] = getOrders();
+    updateOrder(roti.id, { quantity: 0, date: "2026-01-06" });
+
+    expect(getOrders().map(o => [o.discount, o.total_revenue])).toEqual([[0, 0], [2, 0]]);
+    expect(getTransactions()[0]).toMatchObject({ id: tx.id, date: "2026-01-06", discount: 2, total: 0 });
+  });
+});
+
+describe("recordTransaction", () => {
+  it("stamps the receipt on every line so it syncs with them", () => {
+    saveOrders([]);
+    saveTransactions([]);
+    const tx = recordTransaction(
+      [{ item_id: "1", item_name: "Roti", quantity: 2, unit_price: 1.2 }, { item_id: "2", item_name: "Kuih", quantity: 1, unit_price: 2 }],
+      { date: "2026-01-05" }
+    );
+    expect(getOrders().map(o => o.receipt_no)).toEqual([tx.receipt_no, tx.receipt_no]);
+  });
+});
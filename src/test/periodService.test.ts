@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/services/orderRepository", () => ({
+  notifyOrdersChanged: vi.fn(),
+}));
+
+vi.mock("@/services/session", () => ({
+  currentUserLabel: () => "owner@example.com",
+}));
+
+import { closePeriod, reopenPeriod } from "@/services/periodService";
+import { saveOrders, saveExpense, getPeriod, PeriodClosedError } from "@/utils/storage";
+import type { Expense } from "@/types";
+import { order } from "@/test/fixtures";
+
+const expense: Expense = {
+  id: "e1",
+  date: "2026-01-10",
+  category_id: "flour",
+  amount: 4,
+  vendor: "Mill",
+  payment_method: "cash",
+  created_at: "2026-01-10T08:00:00.000Z",
+};
+
+describe("period close", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("freezes a P&L snapshot and blocks expense edits", () => {
+    saveOrders([order, { ...order, id: "b", date: "2026-02-01" }]);
+    saveExpense(expense);
+    const period = closePeriod("2026-01");
+    expect(period.snapshot).toMatchObject({ orders: 1, revenue: 12, cost: 4, profit: 8 });
+    expect(period.history?.[0]).toMatchObject({ action: "closed", by: "owner@example.com" });
+    expect(() => saveExpense({ ...expense, amount: 5 })).toThrow(PeriodClosedError);
+  });
+
+  it("requires a reason to reopen and records it", () => {
+    closePeriod("2026-01");
+    expect(() => reopenPeriod("2026-01", "  ")).toThrow();
+    reopenPeriod("2026-01", "Late invoice");
+    const period = getPeriod("2026-01");
+    expect(period.status).toBe("open");
+    expect(period.history?.map(e => e.action)).toEqual(["closed", "reopened"]);
+    expect(period.history?.[1].reason).toBe("Late invoice");
+  });
+});
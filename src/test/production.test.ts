@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import type { ProductionLog } from "@/types";
+import { dailyUnits, forecastUnits, planBatches, ingredientRequirements, wasteByDay, wasteTotals } from "@/utils/production";
+import { sale } from "@/test/fixtures";
+
+describe("production planning", () => {
+  it("zero-fills the daily unit series before the target date", () => {
+    const orders = [sale("2026-01-01", 5), sale("2026-01-03", 7), sale("2026-01-04", 9)];
+    expect(dailyUnits(orders, "1", "2026-01-04", 3)).toEqual([5, 0, 7]);
+  });
+
+  it("forecasts a flat series at its level", () => {
+    expect(forecastUnits(Array(14).fill(40))).toBeCloseTo(40);
+    expect(forecastUnits([0, 0, 0])).toBe(0);
+  });
+
+  it("adds safety stock and rounds up to whole batches", () => {
+    expect(planBatches(41, 20, 10)).toEqual({ planned_units: 60, batches: 3 });
+    const needs = ingredientRequirements([{ item_id: "1", batches: 3 }], [
+      { item_id: "1", batch_yield: 20, lines: [{ ingredient_id: "flour", quantity: 1000 }], updated_at: "" },
+    ]);
+    expect(needs).toEqual({ flour: 3000 });
+  });
+});
+
+describe("waste tracking", () => {
+  const log = (date: string, item_id: string, produced: number, wasted: number, given_away: number): ProductionLog => ({
+    id: `${date}_${item_id}`, date, item_id, item_name: item_id, produced, wasted, given_away, updated_at: "",
+  });
+
+  it("rolls logs up per day with sold units and waste cost", () => {
+    const logs = [log("2026-01-02", "1", 40, 4, 2), log("2026-01-01", "1", 50, 0, 5), log("2026-01-02", "2", 10, 1, 0)];
+    const days = wasteByDay(logs, [sale("2026-01-02", 30)], id => (id === "1" ? 0.5 : null));
+    expect(days.map(d => d.date)).toEqual(["2026-01-01", "2026-01-02"]);
+    expect(days[1]).toMatchObject({ produced: 50, sold: 30, wasted: 5, given_away: 2, waste_cost: 2 });
+    expect(days[1].waste_rate).toBeCloseTo(10);
+
+    const totals = wasteTotals(days);
+    expect(totals).toMatchObject({ produced: 100, wasted: 5, given_away: 7 });
+    expect(totals.waste_rate).toBeCloseTo(5);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  saveOrder, deleteOrder, getOrders, savePeriod, getExpenses, monthlyCostTotal,
+  getItems, findItem, saveItem, importOrdersCSV, getIngredients, saveIngredient, OrderLockedError, PeriodClosedError
+} from "@/utils/storage";
+import { order } from "@/test/fixtures";
+
+describe("order locking", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("rejects edits and deletion of a locked order", () => {
+    saveOrder({ ...order, locked: true });
+    expect(() => saveOrder({ ...order, locked: true, quantity: 11 })).toThrow(OrderLockedError);
+    expect(() => deleteOrder("a")).toThrow(OrderLockedError);
+  });
+
+  it("still allows unlocking and cloud id stamps", () => {
+    saveOrder({ ...order, locked: true });
+    saveOrder({ ...order, locked: true, firestoreId: "f1" });
+    saveOrder({ ...order, locked: false, firestoreId: "f1" });
+    expect(getOrders()[0].locked).toBe(false);
+  });
+
+  it("freezes orders in a closed period", () => {
+    saveOrder(order);
+    savePeriod({ month: "2026-01", status: "closed" });
+    expect(() => deleteOrder("a")).toThrow(PeriodClosedError);
+    expect(() => saveOrder({ ...order, id: "b" })).toThrow(PeriodClosedError);
+    expect(() => saveOrder({ ...order, date: "2026-02-01" })).toThrow(PeriodClosedError);
+  });
+});
+
+describe("product catalogue", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("fills fields missing from items saved before the catalogue", () => {
+    localStorage.setItem("lsris_items", JSON.stringify([{ id: "9", name: "Murtabak" }]));
+    expect(getItems()).toEqual([
+      { id: "9", name: "Murtabak", sku: "", category: "", unit: "pcs", default_price: 0, archived: false },
+    ]);
+  });
+
+  it("finds a product by SKU or name, ignoring case and surrounding spaces", () => {
+    expect(findItem("kchap")?.id).toBe("4");
+    expect(findItem(" katak roti ")?.id).toBe("3");
+    expect(findItem("")).toBeNull();
+    expect(findItem("Murtabak")).toBeNull();
+  });
+
+  it("does not change the default catalogue when saving", () => {
+    saveItem({ ...getItems()[0], default_price: 9 });
+    localStorage.clear();
+    expect(getItems()[0].default_price).toBe(1.2);
+  });
+
+  it("maps imported rows to catalogue ids by id, then by name", () => {
+    const { imported, errors } = importOrdersCSV([
+      "id,date,item_id,item_name,quantity,unit_price,total_revenue",
+      "r1,2026-01-05,2,Chapati,2,1.5,3",
+      "r2,2026-01-05,,roti,1,1.2,1.2",
+      "r3,2026-01-05,,Murtabak,1,5,5",
+    ].join("\n"));
+
+    expect({ imported, errors }).toEqual({ imported: 2, errors: 1 });
+    expect(getOrders().map(o => [o.id, o.item_id])).toEqual([["r1", "2"], ["r2", "1"]]);
+  });
+});
+
+describe("ingredients", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("does not change the default ingredients when saving", () => {
+    saveIngredient({ id: "salt", name: "Salt", unit: "g", unit_price: 0.001, archived: false });
+    localStorage.clear();
+    expect(getIngredients().map(i => i.id)).not.toContain("salt");
+  });
+});
+
+describe("expense ledger", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("migrates legacy monthly costs into dated expenses", () => {
+    localStorage.setItem("lsris_costs", JSON.stringify([{
+      id: "cost_2026-01", month: "2026-01",
+      flour_cost: 300, gas_cost: 50, electricity_cost: 0, labor_cost: 900, misc_cost: 0,
+    }]));
+    const expenses = getExpenses();
+    expect(expenses.map(e => e.category_id)).toEqual(["flour", "gas", "labor"]);
+    expect(expenses.every(e => e.date === "2026-01-01")).toBe(true);
+    expect(monthlyCostTotal("2026-01")).toBe(1250);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("@/firebase", () => ({
+  auth: { currentUser: { uid: "u1" } },
+}));
+
+vi.mock("@/services/firestoreService", () => ({
+  saveRevenueEntry: vi.fn(),
+  updateRevenueEntry: vi.fn(async () => undefined),
+  trashRevenueEntry: vi.fn(async () => undefined),
+  findRevenueEntryId: vi.fn(async () => null),
+  restoreRevenueEntry: vi.fn(),
+  findTrashEntryId: vi.fn(async () => null),
+}));
+
+import { cancelPendingTrash, enqueue, failedEntries, flushOutbox, pendingCount } from "@/services/syncQueue";
+import {
+  saveRevenueEntry, updateRevenueEntry, trashRevenueEntry, restoreRevenueEntry, findTrashEntryId, findRevenueEntryId
+} from "@/services/firestoreService";
+import { getOrders, getOutbox, saveOrders, saveOutbox } from "@/utils/storage";
+import { order } from "@/test/fixtures";
+
+const NOW = new Date("2026-01-05T10:00:00.000Z");
+
+describe("outbox folding", () => {
+  beforeEach(() => localStorage.clear());
+
+  it("folds updates into a pending create", () => {
+    enqueue("create", order);
+    enqueue("update", { ...order, quantity: 12 });
+    expect(getOutbox().map(e => [e.op, e.order.quantity])).toEqual([["create", 12]]);
+  });
+
+  it("keeps an edit when a queued trash is undone", () => {
+    enqueue("update", { ...order, firestoreId: "f1", quantity: 12 });
+    enqueue("trash", { ...order, firestoreId: "f1", quantity: 12 });
+    cancelPendingTrash("a");
+    expect(getOutbox().map(e => [e.op, e.order.quantity])).toEqual([["update", 12]]);
+  });
+
+  it("queues an edit after a restore instead of folding it in", () => {
+    enqueue("restore", order);
+    enqueue("update", { ...order, quantity: 12 });
+    expect(getOutbox().map(e => e.op)).toEqual(["restore", "update"]);
+  });
+});
+
+describe("outbox replay", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("stamps the new firestoreId on the local order after a create", async () => {
+    vi.mocked(saveRevenueEntry).mockResolvedValue("f1");
+    saveOrders([order]);
+    enqueue("create", order);
+
+    await flushOutbox();
+    expect(getOrders()[0].firestoreId).toBe("f1");
+    expect(getOutbox()).toHaveLength(0);
+  });
+
+  it("clears the request timeout once a write settles", async () => {
+    vi.useFakeTimers({ toFake: ["Date", "setTimeout", "clearTimeout"] });
+    vi.mocked(saveRevenueEntry).mockResolvedValue("f1");
+    enqueue("create", order);
+
+    await flushOutbox();
+    expect(getOutbox()).toHaveLength(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("does not add a second entry when a timed-out create reached the cloud", async () => {
+    vi.mocked(findRevenueEntryId).mockResolvedValueOnce("f1");
+    saveOrders([order]);
+    enqueue("create", order);
+
+    await flushOutbox();
+    expect(saveRevenueEntry).not.toHaveBeenCalled();
+    expect(updateRevenueEntry).toHaveBeenCalledWith("f1", expect.objectContaining({ id: "a" }));
+    expect(getOrders()[0].firestoreId).toBe("f1");
+  });
+
+  it("sends an edit made after a restore to the restored entry", async () => {
+    vi.mocked(findTrashEntryId).mockResolvedValue("t1");
+    vi.mocked(restoreRevenueEntry).mockResolvedValue("f2");
+    saveOrders([order]);
+    enqueue("restore", order);
+    enqueue("update", { ...order, quantity: 12 });
+
+    await flushOutbox();
+    expect(updateRevenueEntry).toHaveBeenCalledWith("f2", expect.objectContaining({ quantity: 12 }));
+    expect(getOrders()[0].firestoreId).toBe("f2");
+  });
+
+  it("backs off 5 s × 2^n, capped at 10 minutes", async () => {
+    vi.mocked(saveRevenueEntry).mockRejectedValue(new Error("offline"));
+    enqueue("create", order);
+
+    const delays: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      await flushOutbox(true);
+      delays.push(Date.parse(getOutbox()[0].next_attempt_at) - NOW.getTime());
+    }
+    expect(delays).toEqual([5_000, 10_000, 20_000]);
+    expect(getOutbox()[0]).toMatchObject({ attempts: 3, last_error: "offline" });
+
+    saveOutbox(getOutbox().map(e => ({ ...e, attempts: 8 })));
+    await flushOutbox(true);
+    expect(Date.parse(getOutbox()[0].next_attempt_at) - NOW.getTime()).toBe(10 * 60_000);
+  });
+
+  it("waits out the backoff unless forced", async () => {
+    vi.mocked(saveRevenueEntry).mockRejectedValueOnce(new Error("offline")).mockResolvedValue("f1");
+    enqueue("create", order);
+    await flushOutbox();
+    await flushOutbox();
+    expect(saveRevenueEntry).toHaveBeenCalledTimes(1);
+
+    await flushOutbox(true);
+    expect(getOutbox()).toHaveLength(0);
+  });
+
+  it("blocks an order's later entries behind its failed one, not other orders", async () => {
+    vi.mocked(saveRevenueEntry).mockImplementation(async data =>
+      data.id === "a" ? Promise.reject(new Error("rejected")) : "f2"
+    );
+    enqueue("create", order);
+    enqueue("trash", order);
+    enqueue("create", { ...order, id: "b" });
+
+    await flushOutbox();
+    expect(getOutbox().map(e => [e.op, e.order.id])).toEqual([["create", "a"], ["trash", "a"]]);
+    expect(getOutbox()[1].attempts).toBe(0);
+  });
+
+  it("marks a permanently rejected write failed and lets the order's later entries through", async () => {
+    vi.mocked(trashRevenueEntry).mockRejectedValueOnce(
+      Object.assign(new Error("Entry is locked and cannot be deleted"), { code: "failed-precondition" })
+    );
+    enqueue("trash", { ...order, firestoreId: "f1" });
+    enqueue("restore", { ...order, firestoreId: "f1" });
+
+    await flushOutbox();
+    expect(failedEntries()).toMatchObject([{ op: "trash", last_error: "Entry is locked and cannot be deleted" }]);
+    expect(pendingCount()).toBe(0);
+
+    await flushOutbox(true);
+    expect(trashRevenueEntry).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { dailySeries, tradingDays, nextTradingDays, seasonLength, isClosedDay } from "@/utils/timeseries";
+import { dailyUnits } from "@/utils/production";
+import { sale } from "@/test/fixtures";
+
+// 2026-03-01 is a Sunday
+const sundays = { closed_weekdays: [0], closed_dates: ["2026-03-04"] };
+
+describe("calendar-aware daily series", () => {
+  it("fills every day and tells closed days from zero-sales days", () => {
+    const orders = [sale("2026-02-28", 5), sale("2026-03-02", 7), sale("2026-03-06", 3)];
+    const points = dailySeries(orders, sundays);
+
+    expect(points.map(p => p.date)).toEqual([
+      "2026-02-28", "2026-03-01", "2026-03-02", "2026-03-03", "2026-03-04", "2026-03-05", "2026-03-06",
+    ]);
+    expect(points.filter(p => p.closed).map(p => p.date)).toEqual(["2026-03-01", "2026-03-04"]);
+    expect(tradingDays(points, sundays).map(p => [p.date, p.revenue])).toEqual([
+      ["2026-02-28", 5], ["2026-03-02", 7], ["2026-03-03", 0], ["2026-03-04", 3], ["2026-03-05", 0], ["2026-03-06", 3],
+    ]);
+  });
+
+  it("treats a closed day with sales as open", () => {
+    const points = dailySeries([sale("2026-03-01", 4)], sundays);
+    expect(points[0]).toMatchObject({ closed: false, revenue: 4 });
+  });
+
+  it("skips closed days when stepping forward and shortens the season", () => {
+    expect(isClosedDay("2026-03-08", sundays)).toBe(true);
+    expect(nextTradingDays("2026-03-03", 3, sundays)).toEqual(["2026-03-03", "2026-03-05", "2026-03-06"]);
+    expect(seasonLength(sundays)).toBe(6);
+  });
+
+  it("leaves closed days out of the per-product unit history", () => {
+    const orders = [sale("2026-02-28", 5), sale("2026-03-02", 7)];
+    expect(dailyUnits(orders, "1", "2026-03-03", 3)).toEqual([5, 0, 7]);
+    expect(dailyUnits(orders, "1", "2026-03-03", 3, sundays)).toEqual([5, 7]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import type { Order } from "@/types";
+import { allocateDiscount, basketMetrics } from "@/utils/transactions";
+
+const line = (id: string, qty: number, revenue: number, tx?: string): Order => ({
+  id,
+  date: "2026-01-05",
+  item_id: "1",
+  item_name: "Roti",
+  quantity: qty,
+  unit_price: revenue / qty,
+  total_revenue: revenue,
+  transaction_id: tx,
+  created_at: "2026-01-05T08:00:00.000Z",
+});
+
+describe("allocateDiscount", () => {
+  it("splits pro rata and sums exactly to the discount", () => {
+    const shares = allocateDiscount([10, 20, 3.33], 1);
+    expect(shares.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    expect(shares[1]).toBeGreaterThan(shares[0]);
+  });
+
+  it("returns zeros without a discount", () => {
+    expect(allocateDiscount([5, 5], 0)).toEqual([0, 0]);
+  });
+});
+
+describe("basketMetrics", () => {
+  it("groups lines by transaction and counts legacy orders singly", () => {
+    const m = basketMetrics([line("a", 2, 4, "t1"), line("b", 3, 6, "t1"), line("c", 1, 2)]);
+    expect(m.transactions).toBe(2);
+    expect(m.avg_basket_value).toBe(6);
+    expect(m.avg_basket_units).toBe(3);
+    expect(m.avg_basket_lines).toBe(1.5);
+  });
+});
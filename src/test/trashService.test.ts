@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/firebase", () => ({
+  auth: { currentUser: { uid: "u1" } },
+}));
+
+vi.mock("firebase/auth", () => ({
+  onAuthStateChanged: vi.fn((_auth, callback: (user: unknown) => void) => {
+    callback({ uid: "u1" });
+    return () => undefined;
+  }),
+}));
+
+vi.mock("@/services/firestoreService", () => ({
+  loadTrashEntries: vi.fn(),
+  purgeTrashEntry: vi.fn(async () => undefined),
+}));
+
+vi.mock("@/services/orderRepository", () => ({
+  restoreOrder: vi.fn(),
+}));
+
+import { listTrash, purgeExpiredTrash, startTrashRetention } from "@/services/trashService";
+import { loadTrashEntries, purgeTrashEntry } from "@/services/firestoreService";
+
+const daysAgo = (n: number) => new Date(Date.now() - n * 86_400_000);
+
+describe("trash service", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    vi.mocked(loadTrashEntries).mockResolvedValue([
+      { trashId: "t1", id: "a", item_name: "Roti", quantity: "3", deletedAt: { toDate: () => daysAgo(40) } },
+      { trashId: "t2", id: "b", item_name: "Kuih", quantity: 2, deletedAt: daysAgo(2).toISOString() },
+    ] as never);
+  });
+
+  it("reads Firestore timestamps and lists the latest deletion first", async () => {
+    const entries = await listTrash();
+    expect(entries.map(e => e.trashId)).toEqual(["t2", "t1"]);
+    expect(entries[1].order.quantity).toBe(3);
+    expect(entries[1].deleted_at.slice(0, 10)).toBe(daysAgo(40).toISOString().slice(0, 10));
+  });
+
+  it("purges only entries past the retention period", async () => {
+    expect(await purgeExpiredTrash(30)).toBe(1);
+    expect(purgeTrashEntry).toHaveBeenCalledWith("t1");
+    expect(purgeTrashEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it("purges on sign-in without opening the Trash page", async () => {
+    startTrashRetention();
+    await vi.waitFor(() => expect(purgeTrashEntry).toHaveBeenCalledWith("t1"));
+  });
+});
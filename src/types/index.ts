@@ -3,26 +3,171 @@
 // Type Definitions
 // ============================================================
 
-export type ProductName = 'Roti' | 'Chapati' | 'Katak Roti' | 'Katak Chapati';
+/** Products are user-defined in the catalogue; see Item */
+export type ProductName = string;
 
 export interface Item {
   id: string;
   name: ProductName;
+  sku: string;
+  category: string;
+  unit: string; // selling unit, e.g. 'pcs', 'pack'
   default_price: number;
+  archived: boolean; // hidden from sales entry, kept for history
+}
+
+/** Purchased input priced per unit of measure (g, ml, min, pcs) */
+export interface Ingredient {
+  id: string;
+  name: string;
+  unit: string;
+  unit_price: number; // currency per unit of measure
+  reorder_level?: number; // warn when stock falls to this level
+  archived: boolean;
+}
+
+export type StockMovementKind = 'purchase' | 'sale' | 'adjustment';
+
+/** Signed change to an ingredient's stock; the level is the running sum */
+export interface StockMovement {
+  id: string;
+  ingredient_id: string;
+  date: string; // YYYY-MM-DD
+  kind: StockMovementKind;
+  quantity: number; // + in / − out, in the ingredient's unit
+  cost?: number; // total paid, purchases only
+  order_id?: string; // sale depletion source
+  notes?: string;
+  created_at: string;
+}
+
+export interface RecipeLine {
+  ingredient_id: string;
+  quantity: number; // per batch, in the ingredient's unit
+}
+
+/** Bill of materials for one catalogue item */
+export interface Recipe {
+  item_id: string;
+  batch_yield: number; // selling units produced per batch
+  lines: RecipeLine[];
+  updated_at: string;
 }
 
 export interface Order {
   id: string;
   date: string; // ISO date string YYYY-MM-DD
   item_id: string;
-  item_name: ProductName;
+  item_name: ProductName; // name snapshot at time of sale
   quantity: number;
   unit_price: number;
   total_revenue: number;
   notes?: string;
+  transaction_id?: string; // basket this line belongs to
+  receipt_no?: string; // the basket's receipt, copied so it syncs with the line
+  discount?: number; // share of the transaction discount, already netted from total_revenue
+  cogs?: number; // recipe cost of goods sold for the line, priced when recorded
+  locked?: boolean; // locked orders reject edits and deletion until unlocked
   created_at: string;
+  updated_at?: string; // ISO timestamp of last modification
+  history?: OrderRevision[]; // edits, oldest first; travels with the order to Firestore
+  firestoreId?: string; // cloud document id once synced
+}
+
+export type EditableOrderField = 'date' | 'item_id' | 'quantity' | 'unit_price' | 'notes';
+
+export interface OrderChange {
+  field: EditableOrderField;
+  from: string | number;
+  to: string | number;
+}
+
+export interface OrderRevision {
+  changed_at: string;
+  changed_by: string; // signed-in user's email, or 'local' when offline/anonymous
+  changes: OrderChange[];
+}
+
+export interface BasketLine {
+  item_id: string;
+  item_name: ProductName;
+  quantity: number;
+  unit_price: number;
+}
+
+/** One customer purchase; its line items are Orders sharing transaction_id */
+export interface Transaction {
+  id: string;
+  receipt_no: string;
+  date: string; // YYYY-MM-DD
+  order_ids: string[];
+  subtotal: number; // Σ quantity × unit_price
+  discount: number;
+  total: number; // subtotal - discount
+  notes?: string;
+  created_at: string;
+}
+
+export interface BasketMetrics {
+  transactions: number;
+  avg_basket_value: number;
+  avg_basket_units: number;
+  avg_basket_lines: number;
+}
+
+/** Frozen month-end figures captured when a period is closed */
+export interface PeriodSnapshot {
+  generated_at: string;
+  orders: number;
+  units: number;
+  transactions: number;
+  revenue: number;
+  cost: number;
+  variable_cost: number;
+  profit: number;
+  profit_margin: number; // %
+  break_even: number | null; // null when the contribution margin is not positive
+  health_score: number;
+  health_components: Record<string, number>;
+}
+
+export interface PeriodEvent {
+  action: 'closed' | 'reopened';
+  at: string;
+  by: string;
+  reason?: string; // required when reopening
+}
+
+/** Accounting period (one calendar month); closed periods freeze their orders and expenses */
+export interface Period {
+  month: string; // YYYY-MM
+  status: 'open' | 'closed';
+  closed_at?: string;
+  closed_by?: string;
+  snapshot?: PeriodSnapshot; // from the most recent close
+  history?: PeriodEvent[];
+}
+
+export type OutboxOperation = 'create' | 'update' | 'trash' | 'restore';
+
+export interface OutboxEntry {
+  id: string;
+  op: OutboxOperation;
+  order: Order;
+  attempts: number;
+  queued_at: string;
+  next_attempt_at: string; // ISO timestamp; backoff gate for the next replay
+  last_error?: string;
+  failed?: boolean; // rejected for good; kept only so the user can see why
 }
 
+export interface TrashEntry {
+  trashId: string; // trashEntries document id
+  order: Order;
+  deleted_at: string; // ISO timestamp
+}
+
+/** Legacy fixed monthly costs; migrated into Expense lines on first load */
 export interface CostEntry {
   id: string;
   month: string; // YYYY-MM
@@ -33,11 +178,94 @@ export interface CostEntry {
   misc_cost: number;
 }
 
+/** Fixed costs are period overheads; variable costs scale with units sold */
+export type CostBehavior = 'fixed' | 'variable';
+
+export interface ExpenseCategory {
+  id: string;
+  name: string;
+  behavior: CostBehavior;
+  archived: boolean;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer' | 'ewallet' | 'other';
+
+/** One dated cost line; monthly costs are the sum of a month's expenses */
+export interface Expense {
+  id: string;
+  date: string; // YYYY-MM-DD
+  category_id: string;
+  amount: number;
+  vendor: string;
+  payment_method: PaymentMethod;
+  notes?: string;
+  created_at: string;
+}
+
 export interface Config {
   pin_hash: string;
   forecasting_window: number; // days for MA
   ema_alpha: number;
   currency_symbol: string;
+  trash_retention_days: number; // deleted sales are purged after this many days
+  prep_safety_pct: number; // safety stock added on top of the production forecast
+  closed_weekdays: number[]; // 0 = Sunday; the stall does not trade on these days
+  closed_dates: string[]; // one-off closures, YYYY-MM-DD
+  anomaly_method: AnomalyMethod;
+  anomaly_threshold: number; // robust z cut-off; IQR fences use half of it
+}
+
+export type AnomalyMethod = 'zscore' | 'mad' | 'stl' | 'iqr';
+
+export type AnomalyCause = 'event' | 'promotion' | 'weather' | 'stockout' | 'data_error' | 'other';
+
+/** A reviewed anomaly; labelled days are imputed before model fitting */
+export interface AnomalyLabel {
+  id: string; // `${date}_${item_id || 'all'}`
+  date: string;
+  item_id?: string; // absent for the whole stall's series
+  cause: AnomalyCause;
+  note?: string;
+  created_at: string;
+}
+
+export type EventRecurrence = 'none' | 'yearly';
+
+/** Holiday or festival fed to the decomposition and forecasts as a regressor */
+export interface CalendarEvent {
+  id: string;
+  name: string;
+  dates: string[]; // first day of each occurrence, YYYY-MM-DD; lunar festivals list one per year
+  recurrence: EventRecurrence; // yearly repeats every listed date on the same month-day
+  duration_days: number; // days the event itself lasts, at least 1
+  pre_days: number; // build-up window before the first day
+  post_days: number; // tail after the last day
+  created_at: string;
+}
+
+/** Saved prep plan line for one product and production day */
+export interface ProductionPlan {
+  id: string; // `${date}_${item_id}`
+  date: string; // production / sale day
+  item_id: string;
+  item_name: string;
+  forecast_units: number;
+  planned_units: number; // after safety stock, rounded up to whole batches
+  batches: number;
+  created_at: string;
+}
+
+/** End-of-day production tally for one product; sold units come from orders */
+export interface ProductionLog {
+  id: string; // `${date}_${item_id}`
+  date: string;
+  item_id: string;
+  item_name: string;
+  produced: number;
+  wasted: number;
+  given_away: number;
+  notes?: string;
+  updated_at: string;
 }
 
 export interface ForecastResult {
@@ -46,6 +274,8 @@ export interface ForecastResult {
   ma: number;
   ema: number;
   wma: number;
+  hw: number; // Holt-Winters, weekly season
+  arima: number; // AIC-selected seasonal ARIMA
   lower_ci: number;
   upper_ci: number;
 }
@@ -55,21 +285,7 @@ export interface ErrorMetrics {
   mse: number;
   rmse: number;
   mape: number;
-}
-
-export interface DecompositionPoint {
-  date: string;
-  revenue: number;
-  trend: number;
-  seasonal: number;
-  residual: number;
-}
-
-export interface AnomalyPoint {
-  date: string;
-  revenue: number;
-  zscore: number;
-  is_anomaly: boolean;
+  smape: number;
 }
 
 export interface VolatilityPoint {
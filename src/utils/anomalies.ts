@@ -0,0 +1,67 @@
+// ============================================================
+// LSRIS Anomalies — robust detection per product and cause labels
+// A labelled day is imputed before fitting so a known one-off
+// (stock-out, rain, data slip) does not bend trend or forecasts
+// ============================================================
+
+import type { AnomalyLabel, AnomalyMethod, Order } from '@/types';
+import { imputePoints, robustAnomalies, type AnomalyPoint } from '@/utils/math';
+import { dailySeries, productTradingDays, tradingDays, type TradingCalendar } from '@/utils/timeseries';
+
+export const labelId = (date: string, itemId?: string) => `${date}_${itemId || 'all'}`;
+
+/**
+ * Labels that apply to one series: stall-wide labels apply everywhere,
+ * product labels only to that product's own series.
+ */
+export function labelsFor(labels: AnomalyLabel[], itemId?: string): AnomalyLabel[] {
+  return labels.filter(l => !l.item_id || l.item_id === itemId);
+}
+
+/** `values` with labelled days replaced by an imputed normal day */
+export function excludeLabelled(
+  dates: string[],
+  values: number[],
+  labels: AnomalyLabel[],
+  itemId?: string,
+  season = 7
+): number[] {
+  const labelled = new Set(labelsFor(labels, itemId).map(l => l.date));
+  if (!dates.some(d => labelled.has(d))) return values;
+  return imputePoints(values, dates.map(d => labelled.has(d)), season);
+}
+
+export interface ProductAnomaly extends AnomalyPoint {
+  item_id: string;
+  item_name: string;
+}
+
+/**
+ * Flagged unit-count days per product over the whole trading history,
+ * limited to `since` onward and strongest first. Each product is scored
+ * against its own history, so a slow seller's spike is not drowned out.
+ */
+export function productAnomalies(
+  orders: Order[],
+  calendar: TradingCalendar,
+  options: { since?: string; method?: AnomalyMethod; threshold?: number; season?: number } = {}
+): ProductAnomaly[] {
+  const all = dailySeries(orders, calendar);
+  if (all.length === 0) return [];
+  const stall = tradingDays(all, calendar);
+  const names: Record<string, string> = {};
+  orders.forEach(o => { names[o.item_id] = o.item_name; });
+
+  return Object.entries(names)
+    .flatMap(([itemId, name]) => {
+      const points = productTradingDays(
+        dailySeries(orders, calendar, { start: all[0].date, end: all[all.length - 1].date, itemId }),
+        stall,
+        calendar
+      );
+      return robustAnomalies(points.map(p => p.date), points.map(p => p.quantity), options)
+        .filter(a => a.is_anomaly && (!options.since || a.date >= options.since))
+        .map(a => ({ ...a, item_id: itemId, item_name: name }));
+    })
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+}
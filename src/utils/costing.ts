@@ -0,0 +1,97 @@
+// ============================================================
+// LSRIS Costing — recipe COGS and per-product margins
+// A product's variable cost is its recipe COGS; variable expenses
+// not covered by recipes are spread over the uncosted units
+// ============================================================
+
+import type { Order, Recipe, Ingredient } from '@/types';
+import type { ProductMixInput } from '@/utils/math';
+import { getRecipe, getIngredients } from '@/utils/storage';
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export type ProductMixRow = ProductMixInput & { name: string };
+
+/**
+ * Per-product inputs for the mix break-even. Products with a recipe carry
+ * their own COGS per unit; the period's variable expenses beyond that
+ * COGS are spread evenly over the units of products without one.
+ */
+export function productMixInputs(orders: Order[], variableCost: number): ProductMixRow[] {
+  const margins = productGrossMargins(orders);
+  const costedCogs = margins.filter(m => m.costed).reduce((s, m) => s + m.cogs, 0);
+  const uncostedUnits = margins.filter(m => !m.costed).reduce((s, m) => s + m.units, 0);
+  const residual = uncostedUnits > 0 ? Math.max(0, variableCost - costedCogs) / uncostedUnits : 0;
+
+  return margins
+    .map(m => ({
+      id: m.id,
+      name: m.name,
+      units: m.units,
+      revenue: m.revenue,
+      unit_variable_cost: m.costed ? (m.units > 0 ? m.cogs / m.units : 0) : residual,
+    }))
+    .sort((a, b) => b.units - a.units);
+}
+
+// ── RECIPE COGS ─────────────────────────────────────────────
+
+/** Ingredient cost of one selling unit: batch cost / batch yield */
+export function recipeUnitCost(recipe: Recipe, ingredients: Ingredient[]): number {
+  const batch = recipe.lines.reduce((s, l) => {
+    const ing = ingredients.find(i => i.id === l.ingredient_id);
+    return s + (ing ? ing.unit_price * l.quantity : 0);
+  }, 0);
+  return recipe.batch_yield > 0 ? batch / recipe.batch_yield : 0;
+}
+
+/** Current unit COGS for a catalogue item; null when it has no recipe */
+export function itemUnitCogs(itemId: string): number | null {
+  const recipe = getRecipe(itemId);
+  return recipe && recipe.lines.length > 0 ? recipeUnitCost(recipe, getIngredients()) : null;
+}
+
+/** COGS for a line at current ingredient prices; undefined without a recipe */
+export function priceOrderCogs(order: Pick<Order, 'item_id' | 'quantity'>): number | undefined {
+  const unit = itemUnitCogs(order.item_id);
+  return unit === null ? undefined : round2(unit * order.quantity);
+}
+
+export interface ProductMargin {
+  id: string;
+  name: string;
+  units: number;
+  revenue: number;
+  cogs: number;
+  gross_profit: number;
+  gross_margin: number; // % of revenue
+  costed: boolean; // false when no line could be costed
+}
+
+/**
+ * Gross margin per product. Orders use the COGS stamped when they were
+ * recorded; older orders fall back to the current recipe price.
+ */
+export function productGrossMargins(orders: Order[]): ProductMargin[] {
+  const byItem = new Map<string, ProductMargin>();
+  orders.forEach(o => {
+    const row = byItem.get(o.item_id) || {
+      id: o.item_id, name: o.item_name, units: 0, revenue: 0, cogs: 0, gross_profit: 0, gross_margin: 0, costed: false,
+    };
+    const cogs = o.cogs ?? priceOrderCogs(o);
+    row.units += o.quantity;
+    row.revenue += o.total_revenue;
+    if (cogs !== undefined) {
+      row.cogs += cogs;
+      row.costed = true;
+    }
+    byItem.set(o.item_id, row);
+  });
+  return [...byItem.values()]
+    .map(r => ({
+      ...r,
+      gross_profit: r.revenue - r.cogs,
+      gross_margin: r.revenue > 0 ? ((r.revenue - r.cogs) / r.revenue) * 100 : 0,
+    }))
+    .sort((a, b) => b.revenue - a.revenue);
+}
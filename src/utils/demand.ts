@@ -0,0 +1,82 @@
+// ============================================================
+// LSRIS Demand — per-product unit forecasts
+// Forecast pieces per product, then price them at today's list
+// price so a price change does not bend the revenue forecast
+// ============================================================
+
+import type { Order, Item, CalendarEvent, AnomalyLabel } from '@/types';
+import { quantityForecast } from '@/utils/math';
+import { dailyUnitPoints } from '@/utils/production';
+import { eventRegressors } from '@/utils/events';
+import { excludeLabelled } from '@/utils/anomalies';
+import { nextTradingDays, seasonLength, type TradingCalendar } from '@/utils/timeseries';
+
+export interface ProductForecast {
+  item_id: string;
+  item_name: string;
+  unit_price: number;
+  dates: string[];
+  units: number[];
+  revenue: number[]; // units × unit_price
+  total_units: number;
+  total_revenue: number;
+}
+
+export interface DemandForecast {
+  dates: string[];
+  products: ProductForecast[];
+  units: number[];
+  revenue: number[];
+}
+
+/**
+ * Forecast `horizon` trading days of units per product starting at
+ * `startDate`, from the `historyDays` calendar days before `historyEnd`
+ * (exclusive; pass today so today's partial sales stay out). Products
+ * with no forecast demand are dropped. `events` lift the days they cover;
+ * days with an anomaly label are imputed before fitting.
+ */
+export function demandForecast(
+  orders: Order[],
+  items: Item[],
+  startDate: string,
+  horizon = 7,
+  historyDays = 56,
+  maWindow = 7,
+  alpha = 0.3,
+  calendar: TradingCalendar = { closed_weekdays: [], closed_dates: [] },
+  events: CalendarEvent[] = [],
+  labels: AnomalyLabel[] = [],
+  historyEnd = startDate
+): DemandForecast {
+  const dates = nextTradingDays(startDate, horizon, calendar);
+  const products = items
+    .map(item => {
+      const history = dailyUnitPoints(orders, item.id, historyEnd, historyDays, calendar);
+      const historyDates = history.map(p => p.date);
+      const regressors = events.length > 0 ? eventRegressors(events, historyDates, dates) : undefined;
+      const season = seasonLength(calendar);
+      const cleaned = excludeLabelled(historyDates, history.map(p => p.units), labels, item.id, season);
+      const units = quantityForecast(cleaned, dates.length, maWindow, alpha, season, regressors);
+      const revenue = units.map(u => u * item.default_price);
+      return {
+        item_id: item.id,
+        item_name: item.name,
+        unit_price: item.default_price,
+        dates,
+        units,
+        revenue,
+        total_units: units.reduce((s, u) => s + u, 0),
+        total_revenue: revenue.reduce((s, r) => s + r, 0),
+      };
+    })
+    .filter(p => p.total_units > 0)
+    .sort((a, b) => b.total_revenue - a.total_revenue);
+
+  return {
+    dates,
+    products,
+    units: dates.map((_, i) => products.reduce((s, p) => s + p.units[i], 0)),
+    revenue: dates.map((_, i) => products.reduce((s, p) => s + p.revenue[i], 0)),
+  };
+}
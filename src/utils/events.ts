@@ -0,0 +1,170 @@
+// ============================================================
+// LSRIS Events — holiday and festival calendar
+// Expands one-off and yearly events into day windows, builds the
+// 0/1 regressor rows the math engine fits, and reads iCal files
+// ============================================================
+
+import type { CalendarEvent, EventRecurrence } from '@/types';
+import { additiveDecomposition, eventEffects, mean, type EventRegressors } from '@/utils/math';
+import { addDays } from '@/utils/timeseries';
+
+/** Days an occurrence starting on `start` covers, build-up and tail included */
+export function eventWindow(event: CalendarEvent, start: string): { from: string; to: string } {
+  return {
+    from: addDays(start, -event.pre_days),
+    to: addDays(start, Math.max(1, event.duration_days) - 1 + event.post_days),
+  };
+}
+
+/** Occurrence start dates whose window overlaps `from`…`to` */
+export function occurrenceStarts(event: CalendarEvent, from: string, to: string): string[] {
+  const starts = new Set<string>();
+  event.dates.forEach(date => {
+    if (event.recurrence !== 'yearly') {
+      starts.add(date);
+      return;
+    }
+    // Windows can spill across New Year, so look one year either side
+    for (let year = Number(from.slice(0, 4)) - 1; year <= Number(to.slice(0, 4)) + 1; year++) {
+      const d = `${year}${date.slice(4)}`;
+      // 29 Feb only recurs in leap years
+      if (year >= Number(date.slice(0, 4)) && addDays(d, 0) === d) starts.add(d);
+    }
+  });
+  return [...starts]
+    .filter(start => {
+      const w = eventWindow(event, start);
+      return w.to >= from && w.from <= to;
+    })
+    .sort();
+}
+
+/** Events whose window covers `date` */
+export function eventsOn(events: CalendarEvent[], date: string): CalendarEvent[] {
+  return events.filter(e => occurrenceStarts(e, date, date).length > 0);
+}
+
+/** One row per event: 1 on each of `dates` inside any of its windows */
+export function eventIndicators(events: CalendarEvent[], dates: string[]): number[][] {
+  if (dates.length === 0) return events.map(() => []);
+  const from = dates.reduce((a, b) => (a < b ? a : b));
+  const to = dates.reduce((a, b) => (a > b ? a : b));
+  return events.map(event => {
+    const days = new Set<string>();
+    occurrenceStarts(event, from, to).forEach(start => {
+      const w = eventWindow(event, start);
+      for (let d = w.from; d <= w.to; d = addDays(d, 1)) days.add(d);
+    });
+    return dates.map(d => (days.has(d) ? 1 : 0));
+  });
+}
+
+export function eventRegressors(events: CalendarEvent[], historyDates: string[], futureDates: string[]): EventRegressors {
+  return { history: eventIndicators(events, historyDates), future: eventIndicators(events, futureDates) };
+}
+
+export interface EventImpact {
+  event: CalendarEvent;
+  days: number; // trading days inside the event's windows
+  effect: number; // β: added to a normal day's value
+  baseline: number; // mean trend + seasonal on those days
+  pct: number; // effect as % of baseline
+}
+
+/** Estimated lift per event from the additive decomposition of a daily series */
+export function eventImpacts(events: CalendarEvent[], dates: string[], values: number[]): EventImpact[] {
+  const rows = eventIndicators(events, dates);
+  const decomp = additiveDecomposition(dates, values, rows);
+  const effects = eventEffects(decomp.map(d => d.revenue - d.trend - d.seasonal), rows);
+  return events
+    .map((event, k) => {
+      const inside = decomp.filter((_, t) => rows[k][t] > 0);
+      const baseline = mean(inside.map(d => d.trend + d.seasonal));
+      return {
+        event,
+        days: inside.length,
+        effect: effects[k],
+        baseline,
+        pct: baseline > 0 ? (effects[k] / baseline) * 100 : 0,
+      };
+    })
+    .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect));
+}
+
+// ── ICAL IMPORT ─────────────────────────────────────────────
+
+export interface ICalEvent {
+  name: string;
+  date: string;
+  duration_days: number;
+  recurrence: EventRecurrence;
+}
+
+const icalDate = (value: string): string | null => {
+  const m = value.match(/(\d{4})(\d{2})(\d{2})/);
+  return m ? `${m[1]}-${m[2]}-${m[3]}` : null;
+};
+
+/**
+ * VEVENTs from an .ics file: SUMMARY, DTSTART, DTEND (exclusive, as for
+ * all-day events) and RRULE FREQ=YEARLY. Other rules import as one-off.
+ */
+export function parseICal(text: string): ICalEvent[] {
+  // Long lines are folded onto continuation lines starting with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const out: ICalEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  lines.forEach(line => {
+    if (line === 'BEGIN:VEVENT') current = {};
+    else if (line === 'END:VEVENT' && current) {
+      const date = current.DTSTART ? icalDate(current.DTSTART) : null;
+      if (date && current.SUMMARY) {
+        const end = current.DTEND ? icalDate(current.DTEND) : null;
+        const days = end && end > date
+          ? Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${date}T00:00:00Z`)) / 86_400_000)
+          : 1;
+        out.push({
+          name: current.SUMMARY.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ').trim(),
+          date,
+          duration_days: days,
+          recurrence: /FREQ=YEARLY/i.test(current.RRULE || '') ? 'yearly' : 'none',
+        });
+      }
+      current = null;
+    } else if (current) {
+      const colon = line.indexOf(':');
+      if (colon > 0) current[line.slice(0, colon).split(';')[0].toUpperCase()] = line.slice(colon + 1);
+    }
+  });
+  return out;
+}
+
+/**
+ * Fold imported VEVENTs into the event list by name (case-insensitive),
+ * so each year's Hari Raya becomes another date of one event. Returns
+ * the events that were added or changed.
+ */
+export function mergeICalEvents(existing: CalendarEvent[], imported: ICalEvent[], now: string): CalendarEvent[] {
+  const byName = new Map(existing.map(e => [e.name.toLowerCase(), { ...e, dates: [...e.dates] }]));
+  const changed = new Set<string>();
+  imported.forEach(ev => {
+    const key = ev.name.toLowerCase();
+    const event = byName.get(key) || {
+      id: crypto.randomUUID(),
+      name: ev.name,
+      dates: [],
+      recurrence: ev.recurrence,
+      duration_days: ev.duration_days,
+      pre_days: 0,
+      post_days: 0,
+      created_at: now,
+    };
+    if (!event.dates.includes(ev.date)) {
+      event.dates = [...event.dates, ev.date].sort();
+      changed.add(key);
+    }
+    byName.set(key, event);
+  });
+  return [...changed].map(key => byName.get(key) as CalendarEvent);
+}
@@ -3,6 +3,8 @@
 // All models implemented manually — no external analytics libs
 // ============================================================
 
+import type { AnomalyMethod } from '@/types';
+
 // ─────────────────────────────────────────────────────────────
 // 1. LINEAR REGRESSION (Ordinary Least Squares)
 // Formula: y = β₀ + β₁x
@@ -161,31 +163,109 @@ export function confidenceInterval(values: number[]): { lower: number; upper: nu
   return { lower: mu - margin, upper: mu + margin, margin };
 }
 
-export function forecastCI(predicted: number, residuals: number[]): { lower: number; upper: number } {
+/**
+ * Prediction interval: ŷ ± z · s · √(1 + leverage · (1 + ρ₁) / (1 − ρ₁)).
+ * `leverage` is 1/n + (x − x̄)²/Sxx for a trend forecast at x, so the band
+ * widens with horizon; ρ₁ (lag-1 residual autocorrelation, clipped to
+ * [0, 0.9]) inflates it for the information lost to serial correlation.
+ */
+export function forecastCI(
+  predicted: number,
+  residuals: number[],
+  leverage: number = 0,
+  z: number = 1.96
+): { lower: number; upper: number } {
   const se = stdDev(residuals);
-  return { lower: predicted - 1.96 * se, upper: predicted + 1.96 * se };
+  const rho = Math.min(0.9, Math.max(0, autocorrelation(residuals, 1)[0]?.correlation ?? 0));
+  const margin = z * se * Math.sqrt(1 + leverage * (1 + rho) / (1 - rho));
+  return { lower: predicted - margin, upper: predicted + margin };
 }
 
 // ─────────────────────────────────────────────────────────────
-// 9. BREAK-EVEN ANALYSIS
-// Break-even revenue = Total Fixed Costs (simplified)
-// Profit = Revenue - Costs
-// Margin = Profit / Revenue
-// Assumption: All costs are fixed within the period
+// 9. BREAK-EVEN ANALYSIS (contribution margin)
+// Profit = Revenue - Fixed - Variable
+// CM ratio = (Revenue - Variable) / Revenue
+// Break-even revenue = Fixed / CM ratio
+// Assumption: Variable cost scales linearly with revenue at the current mix
+// Limitation: Break-even is unreachable (Infinity) when CM ratio ≤ 0;
+// with no revenue yet, only a purely fixed cost base has a defined point
 // ─────────────────────────────────────────────────────────────
-export function breakEvenAnalysis(revenue: number, totalCost: number): {
+export function breakEvenAnalysis(revenue: number, fixedCost: number, variableCost: number = 0): {
   profit: number;
   profit_margin: number;
   surplus_deficit: number;
+  contribution_margin: number;
   break_even: number;
 } {
-  const profit = revenue - totalCost;
+  const profit = revenue - fixedCost - variableCost;
   const profit_margin = revenue > 0 ? profit / revenue : 0;
+  const contribution_margin = revenue > 0 ? (revenue - variableCost) / revenue : variableCost > 0 ? 0 : 1;
   return {
     profit,
     profit_margin,
     surplus_deficit: profit,
-    break_even: totalCost,
+    contribution_margin,
+    break_even: contribution_margin > 0 ? fixedCost / contribution_margin : Infinity,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// 9b. MULTI-PRODUCT BREAK-EVEN (weighted contribution margin)
+// CMᵢ = pᵢ - vᵢ   (avg price − variable cost per unit)
+// CM̄ = Σ mᵢ·CMᵢ   (mᵢ = product share of units sold)
+// Break-even units Q* = Fixed / CM̄,  Qᵢ* = mᵢ·Q*
+// Assumption: Sales mix and prices hold for the rest of the period
+// Limitation: Infinity when the weighted margin is not positive
+// ─────────────────────────────────────────────────────────────
+export interface ProductMixInput {
+  id: string;
+  units: number;
+  revenue: number;
+  unit_variable_cost: number;
+}
+
+export interface ProductContribution {
+  mix: number;
+  unit_price: number;
+  unit_contribution: number;
+  cm_ratio: number;
+  break_even_units: number;
+}
+
+export function productMixBreakEven<T extends ProductMixInput>(fixedCost: number, products: T[]): {
+  products: (T & ProductContribution)[];
+  weighted_unit_contribution: number;
+  contribution_earned: number;
+  break_even_units: number;
+  break_even_revenue: number;
+} {
+  const totalUnits = products.reduce((s, p) => s + p.units, 0);
+  const sold = products.filter(p => p.units > 0);
+  const weighted = totalUnits > 0
+    ? sold.reduce((s, p) => s + (p.units / totalUnits) * (p.revenue / p.units - p.unit_variable_cost), 0)
+    : 0;
+  const beUnits = weighted > 0 ? fixedCost / weighted : Infinity;
+
+  const rows = products.map(p => {
+    const mix = totalUnits > 0 ? p.units / totalUnits : 0;
+    const unit_price = p.units > 0 ? p.revenue / p.units : 0;
+    const unit_contribution = unit_price - p.unit_variable_cost;
+    return {
+      ...p,
+      mix,
+      unit_price,
+      unit_contribution,
+      cm_ratio: unit_price > 0 ? unit_contribution / unit_price : 0,
+      break_even_units: mix > 0 ? beUnits * mix : 0,
+    };
+  });
+
+  return {
+    products: rows,
+    weighted_unit_contribution: weighted,
+    contribution_earned: rows.reduce((s, p) => s + p.unit_contribution * p.units, 0),
+    break_even_units: beUnits,
+    break_even_revenue: weighted > 0 ? rows.reduce((s, p) => s + p.break_even_units * p.unit_price, 0) : Infinity,
   };
 }
 
@@ -302,25 +382,310 @@ interface SensitivityResult {
   estimated_profit: number;
 }
 
+// ─────────────────────────────────────────────────────────────
+// 15. HOLT-WINTERS TRIPLE EXPONENTIAL SMOOTHING (season m = 7)
+// Additive:       ℓt = α(yt − st−m) + (1−α)(ℓt−1 + bt−1)
+//                 bt = β(ℓt − ℓt−1) + (1−β)bt−1
+//                 st = γ(yt − ℓt) + (1−γ)st−m
+//                 ŷt+h = ℓt + h·bt + st+h−m
+// Multiplicative: yt / st−m, yt / ℓt and ŷt+h = (ℓt + h·bt) · st+h−m
+// Parameters: grid search on in-sample one-step SSE
+// Assumption: Stable weekly pattern; multiplicative needs y > 0
+// Limitation: Needs two full seasons to initialise
+// ─────────────────────────────────────────────────────────────
+export type SeasonalMode = 'additive' | 'multiplicative';
+
+export interface HoltWintersFit {
+  mode: SeasonalMode;
+  alpha: number;
+  beta: number;
+  gamma: number;
+  season: number;
+  fitted: number[]; // one-step-ahead; NaN for the first season
+  sse: number;
+  forecast: (periods: number) => number[];
+}
+
+const HW_GRID = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+
+export function holtWinters(
+  values: number[],
+  alpha: number,
+  beta: number,
+  gamma: number,
+  mode: SeasonalMode = 'additive',
+  season: number = 7
+): HoltWintersFit | null {
+  const n = values.length;
+  const m = season;
+  if (m < 2 || n < 2 * m) return null;
+  if (mode === 'multiplicative' && values.some(v => v <= 0)) return null;
+
+  const mul = mode === 'multiplicative';
+  let level = mean(values.slice(0, m));
+  let trend = (mean(values.slice(m, 2 * m)) - level) / m;
+  const seasonals = values.slice(0, m).map(v => (mul ? v / level : v - level));
+  const fitted: number[] = Array(m).fill(NaN);
+  let sse = 0;
+
+  for (let t = m; t < n; t++) {
+    const s = seasonals[t - m];
+    const yhat = mul ? (level + trend) * s : level + trend + s;
+    fitted.push(yhat);
+    sse += (values[t] - yhat) ** 2;
+
+    const prevLevel = level;
+    level = mul
+      ? alpha * (values[t] / s) + (1 - alpha) * (level + trend)
+      : alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    seasonals.push(mul
+      ? gamma * (values[t] / level) + (1 - gamma) * s
+      : gamma * (values[t] - level) + (1 - gamma) * s);
+  }
+
+  const lastSeason = seasonals.slice(-m);
+  return {
+    mode, alpha, beta, gamma, season: m, fitted, sse,
+    forecast: (periods: number) => Array.from({ length: periods }, (_, i) => {
+      const h = i + 1;
+      const s = lastSeason[(h - 1) % m];
+      return mul ? (level + h * trend) * s : level + h * trend + s;
+    }),
+  };
+}
+
+/** Best α, β, γ (and mode, unless fixed) by in-sample SSE; null under two seasons */
+export function fitHoltWinters(values: number[], season: number = 7, mode?: SeasonalMode): HoltWintersFit | null {
+  const modes: SeasonalMode[] = mode ? [mode] : ['additive', 'multiplicative'];
+  let best: HoltWintersFit | null = null;
+  for (const md of modes) {
+    for (const a of HW_GRID) {
+      for (const b of HW_GRID) {
+        for (const g of HW_GRID) {
+          const fit = holtWinters(values, a, b, g, md, season);
+          if (fit && (!best || fit.sse < best.sse)) best = fit;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// ─────────────────────────────────────────────────────────────
+// 16. ARIMA(p,d,q)(P,D,Q)s
+// φ(B)·(1−B)^d·(1−B^s)^D·yt = c + θ(B)·et
+// AR lags 1..p and s..sP, MA lags 1..q and s..sQ on the differenced series
+// Estimation: Hannan–Rissanen (long AR for residual proxies, then OLS)
+// Order: difference (d, D) when it halves the variance; p, q, P, Q by AIC = n·ln σ² + 2k
+// Interval: ŷ ± z·σ·√(Σ ψj², j < h) — widens with horizon
+// Limitation: seasonal terms are additive lags, not multiplicative
+// ─────────────────────────────────────────────────────────────
+export interface ArimaOrder {
+  p: number;
+  d: number;
+  q: number;
+  P: number;
+  D: number;
+  Q: number;
+  season: number;
+}
+
+export interface ArimaFit {
+  order: ArimaOrder;
+  constant: number;
+  ar: Array<{ lag: number; coef: number }>;
+  ma: Array<{ lag: number; coef: number }>;
+  sigma2: number;
+  aic: number;
+  forecast: (periods: number, z?: number) => Array<{ mean: number; lower: number; upper: number }>;
+}
+
+function difference(values: number[], lag: number): number[] {
+  return values.slice(lag).map((v, i) => v - values[i]);
+}
+
+function polyMultiply(a: number[], b: number[]): number[] {
+  const out = Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => { out[i + j] += x * y; }));
+  return out;
+}
+
+/** Least squares via the normal equations; null when singular */
+function ols(X: number[][], y: number[]): number[] | null {
+  const k = X[0]?.length ?? 0;
+  if (k === 0 || y.length <= k) return null;
+  const A = Array.from({ length: k }, () => Array(k + 1).fill(0));
+  X.forEach((row, r) => {
+    for (let i = 0; i < k; i++) {
+      A[i][k] += row[i] * y[r];
+      for (let j = 0; j < k; j++) A[i][j] += row[i] * row[j];
+    }
+  });
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < k; r++) if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+    if (Math.abs(A[pivot][col]) < 1e-10) return null;
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    for (let r = 0; r < k; r++) {
+      if (r === col) continue;
+      const f = A[r][col] / A[col][col];
+      for (let c = col; c <= k; c++) A[r][c] -= f * A[col][c];
+    }
+  }
+  return A.map((row, i) => row[k] / row[i]);
+}
+
+const range = (n: number, step = 1) => Array.from({ length: n }, (_, i) => (i + 1) * step);
+
+export function fitArima(values: number[], order: ArimaOrder): ArimaFit | null {
+  const { p, d, q, P, D, Q, season: s } = order;
+  let w = values;
+  for (let i = 0; i < d; i++) w = difference(w, 1);
+  for (let i = 0; i < D; i++) w = difference(w, s);
+
+  const arLags = [...range(p), ...range(P, s)];
+  const maLags = [...range(q), ...range(Q, s)];
+  const maxLag = Math.max(0, ...arLags, ...maLags);
+  const useConstant = d + D < 2;
+  const k = arLags.length + maLags.length + (useConstant ? 1 : 0);
+  const N = w.length;
+
+  // Stage 1: residual proxies from a long autoregression
+  let eHat: number[] = Array(N).fill(0);
+  let start = maxLag;
+  if (maLags.length > 0) {
+    const m = Math.min(Math.floor(N / 3), maxLag + 7);
+    const rows = range(N - m).map(i => i - 1 + m);
+    const coef = ols(rows.map(t => [1, ...range(m).map(l => w[t - l])]), rows.map(t => w[t]));
+    if (!coef) return null;
+    eHat = w.map((v, t) => (t < m ? 0 : v - coef[0] - range(m).reduce((acc, l) => acc + coef[l] * w[t - l], 0)));
+    start = maxLag + m;
+  }
+  if (N - start < k + 8) return null;
+
+  // Stage 2: OLS on lagged values and lagged residual proxies
+  let constant = 0, phi: number[] = [], theta: number[] = [];
+  if (k > 0) {
+    const rows = range(N - start).map(i => i - 1 + start);
+    const X = rows.map(t => [
+      ...(useConstant ? [1] : []),
+      ...arLags.map(l => w[t - l]),
+      ...maLags.map(l => eHat[t - l]),
+    ]);
+    const coef = ols(X, rows.map(t => w[t]));
+    if (!coef) return null;
+    constant = useConstant ? coef[0] : 0;
+    const off = useConstant ? 1 : 0;
+    phi = coef.slice(off, off + arLags.length);
+    theta = coef.slice(off + arLags.length);
+  }
+
+  // Conditional residuals; scored from a common start so AICs compare
+  const residuals: number[] = Array(N).fill(0);
+  const from = Math.max(maxLag, s);
+  let sse = 0;
+  for (let t = maxLag; t < N; t++) {
+    const pred = constant
+      + arLags.reduce((acc, l, i) => acc + phi[i] * w[t - l], 0)
+      + maLags.reduce((acc, l, i) => acc + theta[i] * residuals[t - l], 0);
+    residuals[t] = w[t] - pred;
+    if (t >= from) sse += residuals[t] ** 2;
+  }
+  const count = N - from;
+  const sigma2 = count > 0 ? sse / count : NaN;
+  if (!Number.isFinite(sigma2) || sigma2 <= 0) return null;
+
+  // Back to the original scale: fold differencing into the AR polynomial
+  let poly = [1];
+  arLags.forEach((l, i) => { poly[l] = (poly[l] || 0) - phi[i]; });
+  poly = Array.from(poly, v => v || 0);
+  for (let i = 0; i < d; i++) poly = polyMultiply(poly, [1, -1]);
+  for (let i = 0; i < D; i++) poly = polyMultiply(poly, [1, ...Array(s - 1).fill(0), -1]);
+  const phiStar = poly.map(v => -v); // phiStar[i] for i ≥ 1
+  const thetaAt: number[] = [];
+  maLags.forEach((l, i) => { thetaAt[l] = theta[i]; });
+  const offset = values.length - N;
+
+  return {
+    order,
+    constant,
+    ar: arLags.map((lag, i) => ({ lag, coef: phi[i] })),
+    ma: maLags.map((lag, i) => ({ lag, coef: theta[i] })),
+    sigma2,
+    aic: count * Math.log(sigma2) + 2 * (k + 1),
+    forecast: (periods: number, z: number = 1.96) => {
+      const y = [...values];
+      const e = [...Array(offset).fill(0), ...residuals];
+      const psi = [1];
+      let psiSq = 0;
+      return Array.from({ length: periods }, (_, h) => {
+        const t = y.length;
+        let yhat = constant;
+        for (let i = 1; i < phiStar.length; i++) yhat += phiStar[i] * (y[t - i] ?? 0);
+        maLags.forEach(l => { yhat += thetaAt[l] * (e[t - l] ?? 0); });
+        y.push(yhat);
+        e.push(0);
+
+        if (h > 0) {
+          let next = thetaAt[h] || 0;
+          for (let i = 1; i <= h && i < phiStar.length; i++) next += phiStar[i] * psi[h - i];
+          psi.push(next);
+        }
+        psiSq += psi[h] ** 2;
+        const margin = z * Math.sqrt(sigma2 * psiSq);
+        return { mean: yhat, lower: yhat - margin, upper: yhat + margin };
+      });
+    },
+  };
+}
+
+/** Lowest-AIC ARIMA over p, q ≤ 2 and P, Q ≤ 1; null under two seasons */
+export function autoArima(values: number[], season: number = 7): ArimaFit | null {
+  if (values.length < 2 * season) return null;
+  const halves = (diffed: number[], orig: number[]) => stdDev(diffed) ** 2 < stdDev(orig) ** 2 / 2;
+  const d = halves(difference(values, 1), values) ? 1 : 0;
+  const base = d ? difference(values, 1) : values;
+  const D = base.length >= 3 * season && halves(difference(base, season), base) ? 1 : 0;
+  const seasonal = base.length - D * season >= 3 * season ? 1 : 0;
+
+  let best: ArimaFit | null = null;
+  for (let p = 0; p <= 2; p++) {
+    for (let q = 0; q <= 2; q++) {
+      for (let P = 0; P <= seasonal; P++) {
+        for (let Q = 0; Q <= seasonal; Q++) {
+          const fit = fitArima(values, { p, d, q, P, D, Q, season });
+          if (fit && (!best || fit.aic < best.aic)) best = fit;
+        }
+      }
+    }
+  }
+  return best;
+}
+
 // ─────────────────────────────────────────────────────────────
 // FORECAST ERROR METRICS
 // MAE = (1/n)Σ|actual - forecast|
 // MSE = (1/n)Σ(actual - forecast)²
 // RMSE = √MSE
 // MAPE = (100/n)Σ|actual - forecast| / actual
+// sMAPE = (100/n)Σ 2|actual - forecast| / (|actual| + |forecast|)
+// NaN forecasts (model could not be fitted) are left out of n
 // ─────────────────────────────────────────────────────────────
 export function errorMetrics(actual: number[], forecast: number[]): {
   mae: number;
   mse: number;
   rmse: number;
   mape: number;
+  smape: number;
 } {
   const n = Math.min(actual.length, forecast.length);
-  if (n === 0) return { mae: 0, mse: 0, rmse: 0, mape: 0 };
+  if (n === 0) return { mae: 0, mse: 0, rmse: 0, mape: 0, smape: 0 };
 
-  let maeSum = 0, mseSum = 0, mapeSum = 0, mapeCount = 0;
+  let scored = 0, maeSum = 0, mseSum = 0, mapeSum = 0, mapeCount = 0, smapeSum = 0, smapeCount = 0;
   for (let i = 0; i < n; i++) {
     if (isNaN(forecast[i])) continue;
+    scored++;
     const err = actual[i] - forecast[i];
     maeSum += Math.abs(err);
     mseSum += err ** 2;
@@ -328,50 +693,418 @@ export function errorMetrics(actual: number[], forecast: number[]): {
       mapeSum += Math.abs(err / actual[i]);
       mapeCount++;
     }
+    const scale = Math.abs(actual[i]) + Math.abs(forecast[i]);
+    if (scale > 0) {
+      smapeSum += (2 * Math.abs(err)) / scale;
+      smapeCount++;
+    }
   }
 
-  const mae = maeSum / n;
-  const mse = mseSum / n;
+  if (scored === 0) return { mae: 0, mse: 0, rmse: 0, mape: 0, smape: 0 };
+  const mae = maeSum / scored;
+  const mse = mseSum / scored;
   return {
     mae,
     mse,
     rmse: Math.sqrt(mse),
     mape: mapeCount > 0 ? (mapeSum / mapeCount) * 100 : 0,
+    smape: smapeCount > 0 ? (smapeSum / smapeCount) * 100 : 0,
   };
 }
 
 // ─────────────────────────────────────────────────────────────
-// ADDITIVE DECOMPOSITION: R(t) = T(t) + S(t) + E(t)
+// WALK-FORWARD BACKTEST (rolling origin)
+// For each origin o: train on y[max(0, o−maxTrain)..o), forecast h = 1..H, score y[o+h−1]
+// Metrics per model overall and per horizon, on held-out days only
+// Selection: lowest out-of-sample MAE across all horizons
+// Origins where a model could not be fitted (NaN) are not scored for it;
+// a model never fitted is left out of the ranking
+// Limitation: only the last `maxOrigins` origins, and at most `maxTrain`
+// days per fit, to bound the cost of the HW grid and ARIMA search
+// ─────────────────────────────────────────────────────────────
+export type ForecastModelKey = 'linear' | 'ma' | 'ema' | 'wma' | 'hw' | 'arima';
+
+// Each origin refits HW and ARIMA; a longer window adds seconds, not accuracy
+export const BACKTEST_TRAIN_DAYS = 120;
+
+export const FORECAST_MODEL_KEYS: ForecastModelKey[] = ['linear', 'ma', 'ema', 'wma', 'hw', 'arima'];
+
+export interface BacktestResult {
+  model: ForecastModelKey;
+  overall: ReturnType<typeof errorMetrics>;
+  by_horizon: ReturnType<typeof errorMetrics>[]; // index h − 1
+  residuals: number[][]; // actual − forecast, index h − 1
+  origins: number;
+}
+
+export function walkForwardBacktest(
+  values: number[],
+  options: {
+    horizon?: number; minTrain?: number; maxTrain?: number; maxOrigins?: number; maWindow?: number; emaAlpha?: number; season?: number;
+  } = {}
+): BacktestResult[] {
+  const {
+    horizon = 7, minTrain = 14, maxTrain = Infinity, maxOrigins = 28, maWindow = 7, emaAlpha = 0.3, season = 7,
+  } = options;
+  const n = values.length;
+  const firstOrigin = Math.max(minTrain, n - maxOrigins);
+  if (n <= firstOrigin) return [];
+
+  const actual: number[][] = Array.from({ length: horizon }, () => []);
+  const predicted = Object.fromEntries(
+    FORECAST_MODEL_KEYS.map(k => [k, Array.from({ length: horizon }, () => [] as number[])])
+  ) as Record<ForecastModelKey, number[][]>;
+
+  for (let o = firstOrigin; o < n; o++) {
+    const steps = Math.min(horizon, n - o);
+    const path = generateForecast(values.slice(Math.max(0, o - maxTrain), o), steps, maWindow, emaAlpha, season);
+    for (let h = 0; h < steps; h++) {
+      actual[h].push(values[o + h]);
+      FORECAST_MODEL_KEYS.forEach(k => predicted[k][h].push(path[h][k]));
+    }
+  }
+
+  return FORECAST_MODEL_KEYS
+    .filter(model => predicted[model].some(row => row.some(v => !isNaN(v))))
+    .map(model => ({
+      model,
+      overall: errorMetrics(actual.flat(), predicted[model].flat()),
+      by_horizon: actual.map((a, h) => errorMetrics(a, predicted[model][h])),
+      residuals: actual.map((a, h) => a.map((v, i) => v - predicted[model][h][i]).filter(r => !isNaN(r))),
+      origins: n - firstOrigin,
+    }))
+    .sort((a, b) => a.overall.mae - b.overall.mae);
+}
+
+// ─────────────────────────────────────────────────────────────
+// EMPIRICAL QUANTILE INTERVALS
+// Band(L, h) = ŷh + [Q((1−L)/2), Q((1+L)/2)] of backtest residuals at h
+// Q: linear interpolation between order statistics
+// Assumption: future errors look like recent out-of-sample errors
+// Limitation: horizons with under 5 residuals pool all horizons
+// ─────────────────────────────────────────────────────────────
+export function quantile(values: number[], p: number): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = (sorted.length - 1) * Math.min(1, Math.max(0, p));
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export interface QuantileBand {
+  level: number; // coverage %, e.g. 80
+  lower: number;
+  upper: number;
+}
+
+export function quantileIntervals(
+  point: number[],
+  residualsByHorizon: number[][],
+  levels: number[] = [50, 80, 95]
+): QuantileBand[][] {
+  const pooled = residualsByHorizon.flat();
+  return point.map((yhat, h) => {
+    const own = residualsByHorizon[h] || [];
+    const res = own.length >= 5 ? own : pooled;
+    return levels.map(level => {
+      const tail = (1 - level / 100) / 2;
+      return { level, lower: yhat + quantile(res, tail), upper: yhat + quantile(res, 1 - tail) };
+    });
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// EVENT EFFECTS (holiday and festival regressors)
+// Model: R(t) = T(t) + S(t) + Σₖ βₖ·Hₖ(t) + E(t), Hₖ(t) ∈ {0, 1}
+// T, S fitted on days outside every event window; β by OLS on R − T − S
+// Assumption: an event adds the same amount at every occurrence
+// Limitation: an event with no past occurrence gets β = 0
+// ─────────────────────────────────────────────────────────────
+
+/** One 0/1 row per event over the fitted values and over the forecast periods */
+export interface EventRegressors {
+  history: number[][];
+  future: number[][];
+}
+
+/** Linear trend and normalised seasonal indices from the clean points (all points if under 2) */
+function cleanBaseline(
+  values: number[],
+  clean: boolean[],
+  seasonOf: (i: number) => number,
+  seasons: number
+): { trend: number[]; seasonal: number[] } {
+  let idx = values.map((_, i) => i).filter(i => clean[i]);
+  if (idx.length < 2) idx = values.map((_, i) => i);
+  const xBar = mean(idx);
+  const yBar = mean(idx.map(i => values[i]));
+  const sxx = idx.reduce((s, i) => s + (i - xBar) ** 2, 0);
+  const slope = sxx > 0 ? idx.reduce((s, i) => s + (i - xBar) * (values[i] - yBar), 0) / sxx : 0;
+  const trend = values.map((_, i) => yBar + slope * (i - xBar));
+
+  const totals: number[] = Array(seasons).fill(0);
+  const counts: number[] = Array(seasons).fill(0);
+  idx.forEach(i => {
+    totals[seasonOf(i)] += values[i] - trend[i];
+    counts[seasonOf(i)]++;
+  });
+  const avg = totals.map((t, k) => (counts[k] > 0 ? t / counts[k] : 0));
+  const avgSeasonal = mean(avg);
+  return { trend, seasonal: values.map((_, i) => avg[seasonOf(i)] - avgSeasonal) };
+}
+
+/** β per event regressed jointly on the residuals; 0 for an event never active */
+export function eventEffects(residuals: number[], indicators: number[][]): number[] {
+  const active = indicators.map(row => row.some(v => v > 0));
+  const cols = indicators.filter((_, k) => active[k]);
+  const beta = cols.length > 0 ? ols(residuals.map((_, t) => cols.map(c => c[t] || 0)), residuals) : null;
+  let j = 0;
+  return indicators.map((row, k) => {
+    if (!active[k]) return 0;
+    const b = beta ? beta[j++] : undefined;
+    // Windows that always coincide cannot be separated; take the mean residual inside
+    return b !== undefined ? b : mean(residuals.filter((_, t) => row[t] > 0));
+  });
+}
+
+/**
+ * Strip the event effects from a trading-day series so the forecasting
+ * models see the underlying demand; `future` is the lift to add back on
+ * each forecast period. Seasonality here is position mod `season`.
+ */
+export function eventAdjustment(
+  values: number[],
+  events: EventRegressors,
+  season: number = 7
+): { adjusted: number[]; effects: number[]; future: number[] } {
+  const clean = values.map((_, t) => events.history.every(row => !row[t]));
+  const { trend, seasonal } = cleanBaseline(values, clean, i => i % season, season);
+  const effects = eventEffects(values.map((v, t) => v - trend[t] - seasonal[t]), events.history);
+  const lift = (rows: number[][], t: number) => rows.reduce((s, row, k) => s + effects[k] * (row[t] || 0), 0);
+  const periods = Math.max(0, ...events.future.map(row => row.length));
+  return {
+    adjusted: values.map((v, t) => v - lift(events.history, t)),
+    effects,
+    future: Array.from({ length: periods }, (_, i) => lift(events.future, i)),
+  };
+}
+
+// ─────────────────────────────────────────────────────────────
+// ADDITIVE DECOMPOSITION: R(t) = T(t) + S(t) + H(t) + E(t)
 // T(t): Trend via OLS linear regression
 // S(t): Seasonal index via weekday averaging (normalized)
-// E(t): Residual = R(t) - T(t) - S(t)
+// H(t): Event effect, Σ βₖ·Hₖ(t) (0 without events)
+// E(t): Residual = R(t) - T(t) - S(t) - H(t)
 // ─────────────────────────────────────────────────────────────
 export function additiveDecomposition(
   dates: string[],
-  revenues: number[]
-): Array<{ date: string; revenue: number; trend: number; seasonal: number; residual: number }> {
-  const n = revenues.length;
-  const reg = linearRegression(revenues);
-  const trends = revenues.map((_, i) => reg.predict(i));
+  revenues: number[],
+  events: number[][] = []
+): Array<{ date: string; revenue: number; trend: number; seasonal: number; event: number; residual: number }> {
+  const clean = revenues.map((_, t) => events.every(row => !row[t]));
+  const weekdays = dates.map(d => new Date(d).getDay());
+  const { trend, seasonal } = cleanBaseline(revenues, clean, i => weekdays[i], 7);
+  const effects = eventEffects(revenues.map((r, t) => r - trend[t] - seasonal[t]), events);
 
-  // Compute weekday seasonal indices
-  const weekdayTotals: number[] = Array(7).fill(0);
-  const weekdayCounts: number[] = Array(7).fill(0);
-  for (let i = 0; i < n; i++) {
-    const dow = new Date(dates[i]).getDay();
-    weekdayTotals[dow] += revenues[i] - trends[i];
-    weekdayCounts[dow]++;
+  return dates.map((date, i) => {
+    const event = events.reduce((s, row, k) => s + effects[k] * (row[i] || 0), 0);
+    return { date, revenue: revenues[i], trend: trend[i], seasonal: seasonal[i], event, residual: revenues[i] - trend[i] - seasonal[i] - event };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// SEASONAL DECOMPOSITION: CLASSICAL MOVING AVERAGE & STL
+// Additive:       R = T + S + M + H + E
+// Multiplicative: R = T · S · M · E + H (S, M, E are factors around 1)
+// Classical: T = centred 2×m moving average (undefined for m/2 points at
+//            each end); S = mean detrended value per seasonal position
+// STL (Cleveland et al., 1990): alternate LOESS smoothing of each
+//            cycle-subseries and of the deseasonalised trend, with
+//            bisquare robustness weights; multiplicative via logs
+// M: month-of-year index once the dates span a year, measured on the
+//    weekly-adjusted series around a linear long-run trend
+// Limitation: multiplicative needs every value > 0; classical and STL
+//             need two seasons, OLS only 3 points
+// ─────────────────────────────────────────────────────────────
+export type DecompositionMethod = 'ols' | 'classical' | 'stl';
+export type DecompositionMode = 'additive' | 'multiplicative';
+
+export interface DecompositionPoint {
+  date: string;
+  value: number;
+  trend: number; // NaN where a classical moving average is undefined
+  seasonal: number;
+  monthly: number;
+  event: number; // holiday lift in data units
+  residual: number;
+}
+
+export interface Decomposition {
+  method: DecompositionMethod;
+  mode: DecompositionMode;
+  season: number;
+  has_monthly: boolean;
+  points: DecompositionPoint[];
+  residual_variance: number; // variance of value − fitted, data units
+  unexplained_pct: number; // residual variance as % of the series variance
+}
+
+type Components = { trend: number[]; seasonal: number[]; residual: number[] };
+
+const tricube = (u: number) => (u < 1 ? (1 - u ** 3) ** 3 : 0);
+
+/** Local linear regression at every point of an equally spaced series */
+function loess(y: number[], span: number, weights?: number[]): number[] {
+  const n = y.length;
+  const q = Math.min(n, Math.max(3, span));
+  return y.map((_, i) => {
+    const start = Math.max(0, Math.min(i - Math.floor(q / 2), n - q));
+    const reach = Math.max(i - start, start + q - 1 - i) + 1;
+    let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+    for (let j = start; j < start + q; j++) {
+      const w = tricube(Math.abs(j - i) / reach) * (weights ? weights[j] : 1);
+      sw += w;
+      sx += w * j;
+      sy += w * y[j];
+      sxx += w * j * j;
+      sxy += w * j * y[j];
+    }
+    if (sw <= 0) return y[i];
+    const denom = sw * sxx - sx * sx;
+    if (Math.abs(denom) < 1e-12) return sy / sw;
+    const b = (sw * sxy - sx * sy) / denom;
+    return (sy - b * sx) / sw + b * i;
+  });
+}
+
+/** Centred moving average that shrinks at the ends instead of going undefined */
+function smoothEdges(values: number[], window: number): number[] {
+  const h = Math.floor(window / 2);
+  return values.map((_, i) => mean(values.slice(Math.max(0, i - h), Math.min(values.length, i - h + window))));
+}
+
+function stlComponents(y: number[], period: number, robustPasses = 1): Components {
+  const n = y.length;
+  const ns = 7;
+  const nt = 2 * Math.ceil((1.5 * period) / (1 - 1.5 / ns) / 2) + 1;
+  let trend: number[] = Array(n).fill(0);
+  let seasonal: number[] = Array(n).fill(0);
+  let weights: number[] = Array(n).fill(1);
+
+  for (let pass = 0; pass <= robustPasses; pass++) {
+    for (let inner = 0; inner < 2; inner++) {
+      const detrended = y.map((v, i) => v - trend[i]);
+      const cycle: number[] = Array(n).fill(0);
+      for (let p = 0; p < period; p++) {
+        const idx = Array.from({ length: Math.ceil((n - p) / period) }, (_, k) => p + k * period);
+        const smooth = loess(idx.map(i => detrended[i]), ns, idx.map(i => weights[i]));
+        idx.forEach((i, k) => { cycle[i] = smooth[k]; });
+      }
+      // Low-pass the cycle so the trend's level does not leak into S
+      const low = smoothEdges(smoothEdges(smoothEdges(cycle, period), period), 3);
+      seasonal = cycle.map((c, i) => c - low[i]);
+      trend = loess(y.map((v, i) => v - seasonal[i]), nt, weights);
+    }
+    const residual = y.map((v, i) => v - trend[i] - seasonal[i]);
+    const h = 6 * median(residual.map(Math.abs));
+    weights = residual.map(r => (h > 0 ? Math.max(0, 1 - (r / h) ** 2) ** 2 : 1));
   }
-  const weekdayAvg = weekdayTotals.map((t, i) => weekdayCounts[i] > 0 ? t / weekdayCounts[i] : 0);
-  const avgSeasonal = mean(weekdayAvg);
-  const seasonalAdj = weekdayAvg.map(s => s - avgSeasonal);
+  return { trend, seasonal, residual: y.map((v, i) => v - trend[i] - seasonal[i]) };
+}
 
-  return dates.map((date, i) => {
-    const dow = new Date(date).getDay();
-    const seasonal = seasonalAdj[dow];
-    const trend = trends[i];
-    return { date, revenue: revenues[i], trend, seasonal, residual: revenues[i] - trend - seasonal };
+function classicalComponents(y: number[], period: number, multiplicative: boolean): Components {
+  const n = y.length;
+  const h = Math.floor(period / 2);
+  // 2×m MA for an even period so the window stays centred
+  const trend = y.map((_, i) => {
+    if (i - h < 0 || i + h >= n) return NaN;
+    if (period % 2 === 1) return mean(y.slice(i - h, i + h + 1));
+    return (mean(y.slice(i - h, i + h)) + mean(y.slice(i - h + 1, i + h + 1))) / 2;
   });
+  const detrended = y.map((v, i) => (multiplicative ? v / trend[i] : v - trend[i]));
+  const index = Array.from({ length: period }, (_, p) =>
+    mean(detrended.filter((d, i) => i % period === p && !isNaN(d)))
+  );
+  const centre = mean(index);
+  const seasonalIndex = index.map(v => (multiplicative ? v / centre : v - centre));
+  const seasonal = y.map((_, i) => seasonalIndex[i % period]);
+  return {
+    trend,
+    seasonal,
+    residual: y.map((v, i) => (multiplicative ? v / (trend[i] * seasonal[i]) : v - trend[i] - seasonal[i])),
+  };
+}
+
+export function decompose(
+  dates: string[],
+  values: number[],
+  options: { method?: DecompositionMethod; mode?: DecompositionMode; season?: number; events?: number[][] } = {}
+): Decomposition | null {
+  const { method = 'stl', mode = 'additive', season = 7, events = [] } = options;
+  const n = values.length;
+  const multiplicative = mode === 'multiplicative';
+  if (n < 3 || (method !== 'ols' && n < 2 * season)) return null;
+  if (multiplicative && (method === 'ols' || values.some(v => v <= 0))) return null;
+
+  const summarise = (points: DecompositionPoint[], fitted: number[], hasMonthly: boolean): Decomposition => {
+    const residuals = values.map((v, i) => v - fitted[i]).filter(r => !isNaN(r));
+    const rv = stdDev(residuals) ** 2;
+    const total = stdDev(values) ** 2;
+    return { method, mode, season, has_monthly: hasMonthly, points, residual_variance: rv, unexplained_pct: total > 0 ? (rv / total) * 100 : 0 };
+  };
+
+  if (method === 'ols') {
+    const points = additiveDecomposition(dates, values, events).map(({ revenue, ...d }) => ({ ...d, value: revenue, monthly: 0 }));
+    return summarise(points, points.map(p => p.trend + p.seasonal + p.event), false);
+  }
+
+  // Holiday lift comes off first so it leaks into neither trend nor seasonality
+  const base = events.some(row => row.some(v => v > 0))
+    ? eventAdjustment(values, { history: events, future: [] }, season).adjusted
+    : values;
+  if (multiplicative && base.some(v => v <= 0)) return null;
+
+  const core = (y: number[]): Components => {
+    if (method === 'classical') return classicalComponents(y, season, multiplicative);
+    if (!multiplicative) return stlComponents(y, season);
+    const c = stlComponents(y.map(Math.log), season);
+    return { trend: c.trend.map(Math.exp), seasonal: c.seasonal.map(Math.exp), residual: c.residual.map(Math.exp) };
+  };
+
+  const neutral = multiplicative ? 1 : 0;
+  let monthly: number[] = Array(n).fill(neutral);
+  let parts = core(base);
+  const spansYear = (Date.parse(dates[n - 1]) - Date.parse(dates[0])) / 86_400_000 >= 365;
+  if (spansYear) {
+    const adjusted = base.map((v, i) => (multiplicative ? v / parts.seasonal[i] : v - parts.seasonal[i]));
+    const reg = linearRegression(adjusted);
+    const byMonth: number[][] = Array.from({ length: 12 }, () => []);
+    adjusted.forEach((v, i) => {
+      const level = reg.predict(i);
+      if (multiplicative && level <= 0) return;
+      byMonth[Number(dates[i].slice(5, 7)) - 1].push(multiplicative ? v / level : v - level);
+    });
+    const seen = byMonth.map(m => (m.length > 0 ? mean(m) : NaN));
+    const centre = mean(seen.filter(v => !isNaN(v)));
+    const index = seen.map(v => (isNaN(v) ? neutral : multiplicative ? v / centre : v - centre));
+    monthly = dates.map(d => index[Number(d.slice(5, 7)) - 1]);
+    parts = core(base.map((v, i) => (multiplicative ? v / monthly[i] : v - monthly[i])));
+  }
+
+  const points = dates.map((date, i) => ({
+    date,
+    value: values[i],
+    trend: parts.trend[i],
+    seasonal: parts.seasonal[i],
+    monthly: monthly[i],
+    event: values[i] - base[i],
+    residual: parts.residual[i],
+  }));
+  const fitted = points.map(p =>
+    multiplicative ? p.trend * p.seasonal * p.monthly + p.event : p.trend + p.seasonal + p.monthly + p.event
+  );
+  return summarise(points, fitted, spansYear);
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -393,23 +1126,183 @@ export function detectAnomalies(
 }
 
 // ─────────────────────────────────────────────────────────────
-// STRUCTURAL BREAK DETECTION (mean shift)
-// Splits series at each point; flags if |μ₁ - μ₂| > k·σ
+// ROBUST ANOMALY DETECTION
+// MAD:  score = (x − median_w) / (1.4826 · MAD_w) over the ±window/2 neighbours
+// STL:  residual x − T − S from the robust STL decomposition above,
+//       scored by 1.4826 · MAD of all residuals
+// IQR:  fences Q1_w − k·IQR_w, Q3_w + k·IQR_w with k = threshold / 2
+//       (threshold 3 → Tukey's 1.5); score = (x − median_w) / (IQR_w / 1.349)
+// Assumption: anomalies are rare, so medians and quartiles track normal days
+// Limitation: a run longer than half the window reads as the new normal
 // ─────────────────────────────────────────────────────────────
-export function detectStructuralBreaks(
+export interface AnomalyPoint {
+  date: string;
+  value: number;
+  expected: number;
+  score: number; // robust z; sign gives the direction
+  is_anomaly: boolean;
+}
+
+export function median(values: number[]): number {
+  return quantile(values, 0.5);
+}
+
+/** 1.4826 · MAD, falling back to σ when more than half the points tie */
+function robustScale(values: number[]): number {
+  const med = median(values);
+  const mad = 1.4826 * median(values.map(v => Math.abs(v - med)));
+  return mad > 0 ? mad : stdDev(values);
+}
+
+/** The `size` points around i, shifted inward at the edges, without i itself */
+function neighbours(values: number[], i: number, size: number): number[] {
+  const start = Math.max(0, Math.min(i - Math.floor(size / 2), values.length - size - 1));
+  return values.slice(start, start + size + 1).filter((_, j) => start + j !== i);
+}
+
+export function robustAnomalies(
+  dates: string[],
   values: number[],
-  sensitivity: number = 1.5
-): number[] {
-  const sigma = stdDev(values);
-  const breakPoints: number[] = [];
-  for (let i = 5; i < values.length - 5; i++) {
-    const left = values.slice(Math.max(0, i - 5), i);
-    const right = values.slice(i, Math.min(values.length, i + 5));
-    if (Math.abs(mean(left) - mean(right)) > sensitivity * sigma) {
-      breakPoints.push(i);
+  options: { method?: AnomalyMethod; threshold?: number; window?: number; season?: number } = {}
+): AnomalyPoint[] {
+  const { threshold = 3, window = 14, season = 7 } = options;
+  let method = options.method || 'mad';
+  const n = values.length;
+  if (method === 'stl' && n < 2 * season) method = 'mad';
+  const size = Math.min(window, n - 1);
+  const point = (i: number, expected: number, scale: number, flagged?: boolean): AnomalyPoint => {
+    const score = scale > 0 ? (values[i] - expected) / scale : 0;
+    return { date: dates[i], value: values[i], expected, score, is_anomaly: flagged ?? Math.abs(score) > threshold };
+  };
+
+  if (method === 'zscore') {
+    const mu = mean(values);
+    const sigma = stdDev(values);
+    return values.map((_, i) => point(i, mu, sigma));
+  }
+
+  if (method === 'stl') {
+    const { trend, seasonal, residual } = stlComponents(values, season);
+    const scale = robustScale(residual);
+    return values.map((_, i) => point(i, trend[i] + seasonal[i], scale));
+  }
+
+  return values.map((v, i) => {
+    const near = neighbours(values, i, size);
+    if (near.length < 3) return point(i, v, 0);
+    const med = median(near);
+    if (method === 'iqr') {
+      const q1 = quantile(near, 0.25);
+      const q3 = quantile(near, 0.75);
+      const iqr = q3 - q1 > 0 ? q3 - q1 : 1.349 * stdDev(near);
+      const k = threshold / 2;
+      return point(i, med, iqr / 1.349, iqr > 0 && (v < q1 - k * iqr || v > q3 + k * iqr));
     }
+    return point(i, med, robustScale(near));
+  });
+}
+
+/**
+ * Fill masked points for model fitting: median of the unmasked values at
+ * the same seasonal position up to 4 seasons either side, else of the
+ * unmasked neighbours within ±3, else the unmasked mean.
+ */
+export function imputePoints(values: number[], mask: boolean[], season: number = 7): number[] {
+  const open = (j: number) => j >= 0 && j < values.length && !mask[j];
+  const rest = values.filter((_, j) => !mask[j]);
+  return values.map((v, i) => {
+    if (!mask[i]) return v;
+    const sameSeason = [-4, -3, -2, -1, 1, 2, 3, 4].map(k => i + k * season).filter(open);
+    if (sameSeason.length > 0) return median(sameSeason.map(j => values[j]));
+    const near = [-3, -2, -1, 1, 2, 3].map(k => i + k).filter(open);
+    if (near.length > 0) return median(near.map(j => values[j]));
+    return rest.length > 0 ? mean(rest) : v;
+  });
+}
+
+// ─────────────────────────────────────────────────────────────
+// CHANGE-POINT DETECTION (PELT, Gaussian mean and variance)
+// Segment cost: C(y[a:b]) = m · ln σ̂², σ̂² the segment's MLE variance
+// Minimise Σ C(segment) + β · (#segments), β = penalty · ln n
+// PELT prunes τ whenever F(τ) + C(y[τ:t]) > F(t) (Killick et al., 2012)
+// Assumption: piecewise-stationary normal data, independent within a segment
+// Limitation: segments shorter than minSize are not detected; a variance
+//             floor stops constant runs (e.g. all-zero days) scoring −∞
+// ─────────────────────────────────────────────────────────────
+export interface Segment {
+  start: number; // first index
+  end: number; // one past the last index
+  mean: number;
+  std: number;
+}
+
+export interface ChangePoint {
+  index: number; // first index of the new segment
+  before: Segment;
+  after: Segment;
+  mean_shift: number; // after.mean − before.mean
+  mean_shift_pct: number; // vs before.mean; 0 when before.mean is 0
+  std_ratio: number; // after.std / before.std; 0 when before.std is 0
+}
+
+export function detectChangePoints(
+  values: number[],
+  options: { penalty?: number; minSize?: number } = {}
+): { segments: Segment[]; changepoints: ChangePoint[] } {
+  const { penalty = 3, minSize = 7 } = options;
+  const n = values.length;
+  const segment = (start: number, end: number): Segment => {
+    const part = values.slice(start, end);
+    const mu = mean(part);
+    return { start, end, mean: mu, std: Math.sqrt(part.reduce((s, v) => s + (v - mu) ** 2, 0) / part.length) };
+  };
+  if (n < 2 * minSize) return { segments: n > 0 ? [segment(0, n)] : [], changepoints: [] };
+
+  const s1 = [0];
+  const s2 = [0];
+  values.forEach((v, i) => {
+    s1.push(s1[i] + v);
+    s2.push(s2[i] + v * v);
+  });
+  const floor = Math.max(1e-9, 1e-3 * stdDev(values) ** 2);
+  const cost = (a: number, b: number) => {
+    const m = b - a;
+    const variance = (s2[b] - s2[a] - (s1[b] - s1[a]) ** 2 / m) / m;
+    return m * Math.log(Math.max(floor, variance));
+  };
+
+  const beta = penalty * Math.log(n);
+  const F: number[] = Array(n + 1).fill(Infinity);
+  const last: number[] = Array(n + 1).fill(0);
+  F[0] = -beta;
+  let candidates = [0];
+  for (let t = minSize; t <= n; t++) {
+    candidates.filter(tau => t - tau >= minSize).forEach(tau => {
+      const f = F[tau] + cost(tau, t) + beta;
+      if (f < F[t]) {
+        F[t] = f;
+        last[t] = tau;
+      }
+    });
+    candidates = candidates.filter(tau => t - tau < minSize || F[tau] + cost(tau, t) <= F[t]);
+    if (t <= n - minSize) candidates.push(t);
   }
-  return breakPoints;
+
+  const bounds: number[] = [];
+  for (let t = n; t > 0; t = last[t]) bounds.unshift(t);
+  const segments = bounds.map((end, i) => segment(i === 0 ? 0 : bounds[i - 1], end));
+  const changepoints = segments.slice(1).map((after, i) => {
+    const before = segments[i];
+    return {
+      index: after.start,
+      before,
+      after,
+      mean_shift: after.mean - before.mean,
+      mean_shift_pct: before.mean !== 0 ? ((after.mean - before.mean) / Math.abs(before.mean)) * 100 : 0,
+      std_ratio: before.std > 0 ? after.std / before.std : 0,
+    };
+  });
+  return { segments, changepoints };
 }
 
 // ─────────────────────────────────────────────────────────────
@@ -469,33 +1362,92 @@ export function formatPercent(value: number): string {
   return `${(value * 100).toFixed(1)}%`;
 }
 
+/**
+ * `fits` are Holt-Winters and ARIMA already fitted to the event-free
+ * series (the page shows their parameters), so they are not fitted twice.
+ */
 export function generateForecast(
   revenues: number[],
   periods: number = 7,
   maWindow: number = 7,
-  emaAlpha: number = 0.3
-): Array<{ linear: number; ma: number; ema: number; wma: number; lower: number; upper: number }> {
+  emaAlpha: number = 0.3,
+  season: number = 7,
+  events?: EventRegressors,
+  fits?: { hw: HoltWintersFit | null; arima: ArimaFit | null }
+): Array<{ linear: number; ma: number; ema: number; wma: number; hw: number; arima: number; lower: number; upper: number }> {
+  // Forecast the event-free series, then add each period's event lift back
+  if (events?.history.some(row => row.some(v => v > 0))) {
+    const adj = eventAdjustment(revenues, events, season);
+    return generateForecast(adj.adjusted, periods, maWindow, emaAlpha, season, undefined, fits).map((f, i) => {
+      const lift = adj.future[i] || 0;
+      return {
+        linear: f.linear + lift, ma: f.ma + lift, ema: f.ema + lift, wma: f.wma + lift,
+        hw: f.hw + lift, arima: f.arima + lift, lower: f.lower + lift, upper: f.upper + lift,
+      };
+    });
+  }
   const reg = linearRegression(revenues);
   const emaVals = exponentialMovingAverage(revenues, emaAlpha);
-  const residuals = revenues.map((v, i) => v - reg.predict(i));
-  const se = stdDev(residuals.filter(r => !isNaN(r)));
+  const residuals = revenues.map((v, i) => v - reg.predict(i)).filter(r => !isNaN(r));
 
   const lastMA = movingAverage(revenues, maWindow).filter(v => !isNaN(v)).at(-1) || 0;
   const lastEMA = emaVals.at(-1) || 0;
   const wmaVals = weightedMovingAverage(revenues, maWindow);
   const lastWMA = wmaVals.filter(v => !isNaN(v)).at(-1) || 0;
   const n = revenues.length;
+  const xBar = (n - 1) / 2;
+  const sxx = (n * (n * n - 1)) / 12;
+  // Holt-Winters and ARIMA need two seasons; until then (or if a fit fails) they are NaN
+  const hw = (fits ? fits.hw : fitHoltWinters(revenues, season))?.forecast(periods);
+  const arima = (fits ? fits.arima : autoArima(revenues, season))?.forecast(periods);
 
   return Array.from({ length: periods }, (_, i) => {
     const x = n + i;
     const linear = reg.predict(x);
+    const { lower, upper } = forecastCI(linear, residuals, 1 / n + (x - xBar) ** 2 / (sxx || 1));
     return {
       linear,
       ma: lastMA,
       ema: lastEMA,
       wma: lastWMA,
-      lower: linear - 1.96 * se,
-      upper: linear + 1.96 * se,
+      hw: hw ? hw[i] : NaN,
+      arima: arima ? arima[i].mean : NaN,
+      lower,
+      upper,
     };
   });
 }
+
+// ─────────────────────────────────────────────────────────────
+// QUANTITY FORECAST (unit counts)
+// Q̂(t+h) = max(0, (Linear(t+h) + EMA + WMA) / 3)
+// Assumption: leading zeros before the first sale carry no signal
+// Limitation: under 7 active points falls back to the plain mean
+// Only these three models are fitted: it runs per product per render,
+// so the HW grid and ARIMA search of generateForecast are skipped
+// ─────────────────────────────────────────────────────────────
+export function quantityForecast(
+  units: number[],
+  periods: number = 7,
+  maWindow: number = 7,
+  emaAlpha: number = 0.3,
+  season: number = 7,
+  events?: EventRegressors
+): number[] {
+  const first = units.findIndex(v => v > 0);
+  if (first < 0) return Array(periods).fill(0);
+  const active = units.slice(first);
+  if (active.length < 7) return Array(periods).fill(Math.max(0, mean(active)));
+  const history = events?.history.map(row => row.slice(first));
+  const adj = history?.some(row => row.some(v => v > 0))
+    ? eventAdjustment(active, { history, future: events.future }, season)
+    : null;
+  const series = adj ? adj.adjusted : active;
+
+  const reg = linearRegression(series);
+  const lastEMA = exponentialMovingAverage(series, emaAlpha).at(-1) || 0;
+  const lastWMA = weightedMovingAverage(series, maWindow).filter(v => !isNaN(v)).at(-1) || 0;
+  return Array.from({ length: periods }, (_, i) =>
+    Math.max(0, (reg.predict(series.length + i) + lastEMA + lastWMA) / 3 + (adj?.future[i] || 0))
+  );
+}
@@ -0,0 +1,62 @@
+// ============================================================
+// LSRIS Periods — month-end P&L and health snapshot
+// Mirrors the Dashboard health calculation, scoped to one month
+// ============================================================
+
+import type { Order, PeriodSnapshot } from '@/types';
+import { basketMetrics } from '@/utils/transactions';
+import { dailySeries, seasonLength, tradingDays, type TradingCalendar } from '@/utils/timeseries';
+import {
+  breakEvenAnalysis, profitMargin, coefficientOfVariation, compoundGrowthRate,
+  walkForwardBacktest, enterpriseHealthIndex
+} from '@/utils/math';
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+export function monthOrders(orders: Order[], month: string): Order[] {
+  return orders.filter(o => o.date.startsWith(month));
+}
+
+/** P&L and health index for one month; `orders` may span any range */
+export function periodSnapshot(
+  month: string,
+  orders: Order[],
+  costs: { fixed: number; variable: number },
+  calendar: TradingCalendar = { closed_weekdays: [], closed_dates: [] }
+): PeriodSnapshot {
+  const inMonth = monthOrders(orders, month);
+  const cost = costs.fixed + costs.variable;
+  const revenue = inMonth.reduce((s, o) => s + o.total_revenue, 0);
+
+  const daily = tradingDays(dailySeries(inMonth, calendar), calendar).map(p => p.revenue);
+
+  // Out-of-sample MAPE of the best model, 20% until the month can be backtested
+  const best = walkForwardBacktest(daily, { horizon: 7, season: seasonLength(calendar) })[0];
+  const mape = best ? best.overall.mape : 20;
+  const cagr = daily.length >= 2
+    ? compoundGrowthRate(daily[0] || 1, daily[daily.length - 1] || 1, daily.length)
+    : 0;
+  const margin = profitMargin(revenue, cost);
+  const breakEven = breakEvenAnalysis(revenue, costs.fixed, costs.variable).break_even;
+  const health = enterpriseHealthIndex({
+    cagr,
+    cv: coefficientOfVariation(daily),
+    profit_margin: margin / 100,
+    mape,
+  });
+
+  return {
+    generated_at: new Date().toISOString(),
+    orders: inMonth.length,
+    units: inMonth.reduce((s, o) => s + o.quantity, 0),
+    transactions: basketMetrics(inMonth).transactions,
+    revenue: round2(revenue),
+    cost: round2(cost),
+    variable_cost: round2(costs.variable),
+    profit: round2(revenue - cost),
+    profit_margin: round2(margin),
+    break_even: Number.isFinite(breakEven) ? round2(breakEven) : null,
+    health_score: health.score,
+    health_components: health.components,
+  };
+}
@@ -0,0 +1,137 @@
+// ============================================================
+// LSRIS Production — prep planning and waste tracking
+// Forecast units → safety stock → whole batches → ingredients
+// ============================================================
+
+import type { Order, Recipe, ProductionPlan, ProductionLog } from '@/types';
+import { quantityForecast, type EventRegressors } from '@/utils/math';
+import { addDays, dailySeries, tradingDays, type TradingCalendar } from '@/utils/timeseries';
+
+/**
+ * Units sold per day for one product over the `days` calendar days before
+ * `endDate`, zero-filled; with a calendar, closed weekdays are left out
+ * and one-off closed dates imputed (see tradingDays).
+ */
+export function dailyUnitPoints(
+  orders: Order[],
+  itemId: string,
+  endDate: string,
+  days: number,
+  calendar?: TradingCalendar
+): { date: string; units: number }[] {
+  const cal = calendar || { closed_weekdays: [], closed_dates: [] };
+  const points = dailySeries(orders, cal, {
+    start: addDays(endDate, -days),
+    end: addDays(endDate, -1),
+    itemId,
+  });
+  return tradingDays(points, cal).map(p => ({ date: p.date, units: p.quantity }));
+}
+
+export function dailyUnits(orders: Order[], itemId: string, endDate: string, days: number, calendar?: TradingCalendar): number[] {
+  return dailyUnitPoints(orders, itemId, endDate, days, calendar).map(p => p.units);
+}
+
+/**
+ * Next-day unit forecast; see quantityForecast in math.ts. `season` is
+ * the trading week length from seasonLength(calendar).
+ */
+export function forecastUnits(
+  series: number[],
+  maWindow = 7,
+  alpha = 0.3,
+  season = 7,
+  events?: EventRegressors
+): number {
+  return quantityForecast(series, 1, maWindow, alpha, season, events)[0];
+}
+
+/** Add safety stock and round up to whole batches */
+export function planBatches(forecast: number, batchYield: number, safetyPct: number): { planned_units: number; batches: number } {
+  const target = Math.ceil(forecast * (1 + safetyPct / 100));
+  const size = batchYield > 0 ? batchYield : 1;
+  const batches = Math.ceil(target / size);
+  return { planned_units: batches * size, batches };
+}
+
+/** Total ingredient quantities for a set of planned batches */
+export function ingredientRequirements(
+  plans: Pick<ProductionPlan, 'item_id' | 'batches'>[],
+  recipes: Recipe[]
+): Record<string, number> {
+  return plans.reduce((acc: Record<string, number>, p) => {
+    recipes.find(r => r.item_id === p.item_id)?.lines.forEach(l => {
+      acc[l.ingredient_id] = (acc[l.ingredient_id] || 0) + l.quantity * p.batches;
+    });
+    return acc;
+  }, {});
+}
+
+export interface PlanOutcome {
+  date: string;
+  item_id: string;
+  item_name: string;
+  planned: number;
+  sold: number;
+  surplus: number; // planned − sold; negative means demand was missed
+}
+
+/** Planned versus sold units for saved plans up to `today` (exclusive) */
+export function planOutcomes(plans: ProductionPlan[], orders: Order[], today: string): PlanOutcome[] {
+  return plans
+    .filter(p => p.date < today)
+    .map(p => {
+      const sold = orders
+        .filter(o => o.date === p.date && o.item_id === p.item_id)
+        .reduce((s, o) => s + o.quantity, 0);
+      return { date: p.date, item_id: p.item_id, item_name: p.item_name, planned: p.planned_units, sold, surplus: p.planned_units - sold };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || a.item_name.localeCompare(b.item_name));
+}
+
+// ── WASTE ───────────────────────────────────────────────────
+
+export interface WasteDay {
+  date: string;
+  produced: number;
+  sold: number;
+  wasted: number;
+  given_away: number;
+  waste_cost: number; // wasted units at recipe COGS; 0 for products without a recipe
+  waste_rate: number; // % of produced
+}
+
+/** Daily waste from production logs, with sold units taken from orders */
+export function wasteByDay(
+  logs: ProductionLog[],
+  orders: Order[],
+  unitCost: (itemId: string) => number | null
+): WasteDay[] {
+  const days = new Map<string, WasteDay>();
+  logs.forEach(l => {
+    const day = days.get(l.date) || { date: l.date, produced: 0, sold: 0, wasted: 0, given_away: 0, waste_cost: 0, waste_rate: 0 };
+    day.produced += l.produced;
+    day.wasted += l.wasted;
+    day.given_away += l.given_away;
+    day.waste_cost += l.wasted * (unitCost(l.item_id) ?? 0);
+    day.sold += orders
+      .filter(o => o.date === l.date && o.item_id === l.item_id)
+      .reduce((s, o) => s + o.quantity, 0);
+    days.set(l.date, day);
+  });
+  return [...days.values()]
+    .map(d => ({ ...d, waste_rate: d.produced > 0 ? (d.wasted / d.produced) * 100 : 0 }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function wasteTotals(days: WasteDay[]): Omit<WasteDay, 'date'> {
+  const t = days.reduce((acc, d) => ({
+    produced: acc.produced + d.produced,
+    sold: acc.sold + d.sold,
+    wasted: acc.wasted + d.wasted,
+    given_away: acc.given_away + d.given_away,
+    waste_cost: acc.waste_cost + d.waste_cost,
+    waste_rate: 0,
+  }), { produced: 0, sold: 0, wasted: 0, given_away: 0, waste_cost: 0, waste_rate: 0 });
+  return { ...t, waste_rate: t.produced > 0 ? (t.wasted / t.produced) * 100 : 0 };
+}
@@ -2,22 +2,53 @@
 // LSRIS Storage Layer — localStorage persistence
 // ============================================================
 
-import type { Order, Item, CostEntry, Config } from '@/types';
+import type {
+  Order, Item, CostEntry, Expense, ExpenseCategory, Ingredient, Recipe, StockMovement,
+  ProductionPlan, ProductionLog, Config, OutboxEntry, Transaction, Period, CalendarEvent,
+  AnomalyLabel
+} from '@/types';
 
 const KEYS = {
   ORDERS: 'lsris_orders',
   ITEMS: 'lsris_items',
-  COSTS: 'lsris_costs',
+  COSTS: 'lsris_costs', // legacy monthly CostEntry, read only for migration
+  EXPENSES: 'lsris_expenses',
+  EXPENSE_CATEGORIES: 'lsris_expense_categories',
+  INGREDIENTS: 'lsris_ingredients',
+  RECIPES: 'lsris_recipes',
+  STOCK: 'lsris_stock_movements',
+  PLANS: 'lsris_production_plans',
+  PRODUCTION: 'lsris_production_logs',
   CONFIG: 'lsris_config',
+  OUTBOX: 'lsris_outbox',
+  TRANSACTIONS: 'lsris_transactions',
+  PERIODS: 'lsris_periods',
+  EVENTS: 'lsris_events',
+  ANOMALY_LABELS: 'lsris_anomaly_labels',
 };
 
 // ── DEFAULT DATA ────────────────────────────────────────────
 
 const DEFAULT_ITEMS: Item[] = [
-  { id: '1', name: 'Roti', default_price: 1.20 },
-  { id: '2', name: 'Chapati', default_price: 1.50 },
-  { id: '3', name: 'Katak Roti', default_price: 2.00 },
-  { id: '4', name: 'Katak Chapati', default_price: 2.50 },
+  { id: '1', name: 'Roti', sku: 'ROTI', category: 'Bread', unit: 'pcs', default_price: 1.20, archived: false },
+  { id: '2', name: 'Chapati', sku: 'CHAP', category: 'Bread', unit: 'pcs', default_price: 1.50, archived: false },
+  { id: '3', name: 'Katak Roti', sku: 'KROTI', category: 'Bread', unit: 'pcs', default_price: 2.00, archived: false },
+  { id: '4', name: 'Katak Chapati', sku: 'KCHAP', category: 'Bread', unit: 'pcs', default_price: 2.50, archived: false },
+];
+
+const DEFAULT_EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  { id: 'flour', name: 'Flour', behavior: 'variable', archived: false },
+  { id: 'gas', name: 'Gas / Fuel', behavior: 'variable', archived: false },
+  { id: 'electricity', name: 'Electricity', behavior: 'fixed', archived: false },
+  { id: 'labor', name: 'Labor', behavior: 'fixed', archived: false },
+  { id: 'misc', name: 'Miscellaneous', behavior: 'fixed', archived: false },
+];
+
+const DEFAULT_INGREDIENTS: Ingredient[] = [
+  { id: 'flour', name: 'Flour', unit: 'g', unit_price: 0.0032, archived: false },
+  { id: 'oil', name: 'Cooking Oil', unit: 'ml', unit_price: 0.007, archived: false },
+  { id: 'ghee', name: 'Ghee', unit: 'g', unit_price: 0.035, archived: false },
+  { id: 'gas', name: 'Gas', unit: 'min', unit_price: 0.06, archived: false },
 ];
 
 const DEFAULT_CONFIG: Config = {
@@ -25,6 +56,12 @@ const DEFAULT_CONFIG: Config = {
   forecasting_window: 7,
   ema_alpha: 0.3,
   currency_symbol: 'RM',
+  trash_retention_days: 30,
+  prep_safety_pct: 10,
+  closed_weekdays: [],
+  closed_dates: [],
+  anomaly_method: 'mad',
+  anomaly_threshold: 3,
 };
 
 // ── GENERIC ─────────────────────────────────────────────────
@@ -44,35 +81,199 @@ function set<T>(key: string, value: T): void {
 
 // ── ORDERS ──────────────────────────────────────────────────
 
+export class OrderLockedError extends Error {
+  constructor(order: Order) {
+    super(`Entry for ${order.item_name} on ${order.date} is locked`);
+    this.name = 'OrderLockedError';
+  }
+}
+
+export class PeriodClosedError extends Error {
+  constructor(month: string) {
+    super(`Period ${month} is closed — reopen it to make changes`);
+    this.name = 'PeriodClosedError';
+  }
+}
+
+// Fields frozen by a lock; locked, updated_at and firestoreId may still change
+const LOCKED_FIELDS: (keyof Order)[] = [
+  'date', 'item_id', 'item_name', 'quantity', 'unit_price', 'total_revenue', 'discount', 'notes', 'transaction_id',
+];
+
+function assertWritable(existing: Order | undefined, next: Order | null): void {
+  const touched = !existing || !next || LOCKED_FIELDS.some(f => existing[f] !== next[f]);
+  if (!touched) return;
+  if (existing?.locked) throw new OrderLockedError(existing);
+  [existing?.date, next?.date].forEach(date => {
+    if (date && isPeriodClosed(date.slice(0, 7))) throw new PeriodClosedError(date.slice(0, 7));
+  });
+}
+
 export function getOrders(): Order[] {
   return get<Order[]>(KEYS.ORDERS, []);
 }
 
+/** Upsert; throws OrderLockedError / PeriodClosedError for frozen orders */
 export function saveOrder(order: Order): void {
   const orders = getOrders();
   const idx = orders.findIndex(o => o.id === order.id);
+  assertWritable(orders[idx], order);
   if (idx >= 0) orders[idx] = order;
   else orders.push(order);
   set(KEYS.ORDERS, orders);
 }
 
+/**
+ * Bulk replace used by reconciliation; bypasses lock checks on changes,
+ * but never drops a locked order or one in a closed period
+ */
+export function saveOrders(orders: Order[]): void {
+  const ids = new Set(orders.map(o => o.id));
+  const frozen = getOrders().filter(o =>
+    !ids.has(o.id) && (o.locked || (!!o.date && isPeriodClosed(o.date.slice(0, 7))))
+  );
+  set(KEYS.ORDERS, [...orders, ...frozen]);
+}
+
 export function deleteOrder(id: string): void {
-  set(KEYS.ORDERS, getOrders().filter(o => o.id !== id));
+  const orders = getOrders();
+  assertWritable(orders.find(o => o.id === id), null);
+  set(KEYS.ORDERS, orders.filter(o => o.id !== id));
 }
 
 export function getOrdersByDateRange(from: string, to: string): Order[] {
   return getOrders().filter(o => o.date >= from && o.date <= to);
 }
 
-// ── ITEMS ───────────────────────────────────────────────────
+// ── PERIODS ─────────────────────────────────────────────────
+
+export function getPeriods(): Period[] {
+  return get<Period[]>(KEYS.PERIODS, []);
+}
+
+export function getPeriod(month: string): Period {
+  return getPeriods().find(p => p.month === month) || { month, status: 'open' };
+}
+
+export function savePeriod(period: Period): void {
+  const periods = getPeriods();
+  const idx = periods.findIndex(p => p.month === period.month);
+  if (idx >= 0) periods[idx] = period;
+  else periods.push(period);
+  set(KEYS.PERIODS, periods);
+}
+
+export function isPeriodClosed(month: string): boolean {
+  return getPeriod(month).status === 'closed';
+}
+
+// ── EVENTS ──────────────────────────────────────────────────
+
+export function getEvents(): CalendarEvent[] {
+  return get<CalendarEvent[]>(KEYS.EVENTS, []);
+}
+
+export function saveEvent(event: CalendarEvent): void {
+  const events = getEvents();
+  const idx = events.findIndex(e => e.id === event.id);
+  if (idx >= 0) events[idx] = event;
+  else events.push(event);
+  set(KEYS.EVENTS, events);
+}
+
+export function deleteEvent(id: string): void {
+  set(KEYS.EVENTS, getEvents().filter(e => e.id !== id));
+}
+
+// ── ANOMALY LABELS ──────────────────────────────────────────
+
+export function getAnomalyLabels(): AnomalyLabel[] {
+  return get<AnomalyLabel[]>(KEYS.ANOMALY_LABELS, []);
+}
+
+export function saveAnomalyLabel(label: AnomalyLabel): void {
+  set(KEYS.ANOMALY_LABELS, [...getAnomalyLabels().filter(l => l.id !== label.id), label]);
+}
+
+export function deleteAnomalyLabel(id: string): void {
+  set(KEYS.ANOMALY_LABELS, getAnomalyLabels().filter(l => l.id !== id));
+}
+
+// ── TRANSACTIONS ────────────────────────────────────────────
+
+export function getTransactions(): Transaction[] {
+  return get<Transaction[]>(KEYS.TRANSACTIONS, []);
+}
+
+export function getTransaction(id: string): Transaction | null {
+  return getTransactions().find(t => t.id === id) || null;
+}
+
+export function saveTransaction(tx: Transaction): void {
+  const txs = getTransactions();
+  const idx = txs.findIndex(t => t.id === tx.id);
+  if (idx >= 0) txs[idx] = tx;
+  else txs.push(tx);
+  set(KEYS.TRANSACTIONS, txs);
+}
+
+/** Bulk replace used when transactions are rebuilt from synced orders */
+export function saveTransactions(txs: Transaction[]): void {
+  set(KEYS.TRANSACTIONS, txs);
+}
+
+export function deleteTransaction(id: string): void {
+  set(KEYS.TRANSACTIONS, getTransactions().filter(t => t.id !== id));
+}
+
+/**
+ * Sequential receipt number per day, e.g. R-20260105-003. One past the
+ * highest number seen, so a deleted basket's number is never reused.
+ */
+export function nextReceiptNo(date: string): string {
+  const prefix = `R-${date.replace(/-/g, '')}-`;
+  const last = getTransactions()
+    .filter(t => t.receipt_no.startsWith(prefix))
+    .reduce((max, t) => Math.max(max, Number(t.receipt_no.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(last + 1).padStart(3, '0')}`;
+}
+
+// ── ITEMS (product catalogue) ───────────────────────────────
+
+/** Fill catalogue fields missing from items saved before they existed */
+function normalizeItem(item: Partial<Item> & Pick<Item, 'id' | 'name'>): Item {
+  return {
+    sku: '',
+    category: '',
+    unit: 'pcs',
+    default_price: 0,
+    archived: false,
+    ...item,
+  };
+}
 
 export function getItems(): Item[] {
   const stored = get<Item[]>(KEYS.ITEMS, []);
   if (stored.length === 0) {
     set(KEYS.ITEMS, DEFAULT_ITEMS);
-    return DEFAULT_ITEMS;
+    return [...DEFAULT_ITEMS];
   }
-  return stored;
+  return stored.map(normalizeItem);
+}
+
+export function getActiveItems(): Item[] {
+  return getItems().filter(i => !i.archived);
+}
+
+export function getItem(id: string): Item | null {
+  return getItems().find(i => i.id === id) || null;
+}
+
+/** Look up a product by SKU or (case-insensitive) name */
+export function findItem(key: string): Item | null {
+  const k = key.trim().toLowerCase();
+  if (!k) return null;
+  return getItems().find(i => i.sku.toLowerCase() === k || i.name.toLowerCase() === k) || null;
 }
 
 export function saveItem(item: Item): void {
@@ -83,28 +284,210 @@ export function saveItem(item: Item): void {
   set(KEYS.ITEMS, items);
 }
 
-// ── COSTS ───────────────────────────────────────────────────
+export function setItemArchived(id: string, archived: boolean): void {
+  const item = getItem(id);
+  if (item) saveItem({ ...item, archived });
+}
+
+export function getItemCategories(): string[] {
+  return [...new Set(getItems().map(i => i.category).filter(Boolean))].sort();
+}
+
+// ── EXPENSES ────────────────────────────────────────────────
+
+// Legacy CostEntry field → default expense category
+const LEGACY_COST_FIELDS: [keyof CostEntry, string][] = [
+  ['flour_cost', 'flour'],
+  ['gas_cost', 'gas'],
+  ['electricity_cost', 'electricity'],
+  ['labor_cost', 'labor'],
+  ['misc_cost', 'misc'],
+];
+
+/** One expense per non-zero field, dated the first of the month */
+export function migrateCostEntries(costs: CostEntry[]): Expense[] {
+  return costs.flatMap(c => LEGACY_COST_FIELDS
+    .filter(([field]) => Number(c[field]) > 0)
+    .map(([field, category_id]) => ({
+      id: `${c.id}_${category_id}`,
+      date: `${c.month}-01`,
+      category_id,
+      amount: Number(c[field]),
+      vendor: '',
+      payment_method: 'other' as const,
+      notes: 'Migrated from monthly costs',
+      created_at: new Date().toISOString(),
+    })));
+}
+
+export function getExpenses(): Expense[] {
+  if (localStorage.getItem(KEYS.EXPENSES) === null) {
+    set(KEYS.EXPENSES, migrateCostEntries(get<CostEntry[]>(KEYS.COSTS, [])));
+  }
+  return get<Expense[]>(KEYS.EXPENSES, []);
+}
+
+export function getExpensesForMonth(month: string): Expense[] {
+  return getExpenses().filter(e => e.date.startsWith(month));
+}
+
+/** Total expenses booked in a month; feeds break-even and profit figures */
+export function monthlyCostTotal(month: string): number {
+  return getExpensesForMonth(month).reduce((s, e) => s + e.amount, 0);
+}
+
+/** Month's expenses split by category behaviour; unknown categories count as fixed */
+export function monthlyCostSplit(month: string): { fixed: number; variable: number } {
+  const categories = getExpenseCategories();
+  return getExpensesForMonth(month).reduce((acc, e) => {
+    const behavior = categories.find(c => c.id === e.category_id)?.behavior || 'fixed';
+    acc[behavior] += e.amount;
+    return acc;
+  }, { fixed: 0, variable: 0 });
+}
+
+function assertExpenseWritable(...dates: (string | undefined)[]): void {
+  dates.forEach(date => {
+    if (date && isPeriodClosed(date.slice(0, 7))) throw new PeriodClosedError(date.slice(0, 7));
+  });
+}
+
+/** Upsert; throws PeriodClosedError if the old or new month is closed */
+export function saveExpense(expense: Expense): void {
+  const expenses = getExpenses();
+  const idx = expenses.findIndex(e => e.id === expense.id);
+  assertExpenseWritable(expenses[idx]?.date, expense.date);
+  if (idx >= 0) expenses[idx] = expense;
+  else expenses.push(expense);
+  set(KEYS.EXPENSES, expenses);
+}
+
+export function deleteExpense(id: string): void {
+  const expenses = getExpenses();
+  assertExpenseWritable(expenses.find(e => e.id === id)?.date);
+  set(KEYS.EXPENSES, expenses.filter(e => e.id !== id));
+}
+
+// Categories saved before cost behaviour existed default to fixed
+function normalizeCategory(raw: Partial<ExpenseCategory> & { id: string }): ExpenseCategory {
+  const preset = DEFAULT_EXPENSE_CATEGORIES.find(c => c.id === raw.id);
+  return {
+    id: raw.id,
+    name: raw.name || preset?.name || raw.id,
+    behavior: raw.behavior || preset?.behavior || 'fixed',
+    archived: raw.archived ?? false,
+  };
+}
+
+export function getExpenseCategories(): ExpenseCategory[] {
+  return get<ExpenseCategory[]>(KEYS.EXPENSE_CATEGORIES, DEFAULT_EXPENSE_CATEGORIES).map(normalizeCategory);
+}
+
+export function getExpenseCategory(id: string): ExpenseCategory | undefined {
+  return getExpenseCategories().find(c => c.id === id);
+}
+
+export function saveExpenseCategory(category: ExpenseCategory): void {
+  const categories = getExpenseCategories();
+  const idx = categories.findIndex(c => c.id === category.id);
+  if (idx >= 0) categories[idx] = category;
+  else categories.push(category);
+  set(KEYS.EXPENSE_CATEGORIES, categories);
+}
+
+// ── RECIPES ─────────────────────────────────────────────────
+
+export function getIngredients(): Ingredient[] {
+  return get<Ingredient[]>(KEYS.INGREDIENTS, [...DEFAULT_INGREDIENTS]);
+}
+
+export function saveIngredient(ingredient: Ingredient): void {
+  const ingredients = getIngredients();
+  const idx = ingredients.findIndex(i => i.id === ingredient.id);
+  if (idx >= 0) ingredients[idx] = ingredient;
+  else ingredients.push(ingredient);
+  set(KEYS.INGREDIENTS, ingredients);
+}
+
+export function getRecipes(): Recipe[] {
+  return get<Recipe[]>(KEYS.RECIPES, []);
+}
+
+export function getRecipe(itemId: string): Recipe | undefined {
+  return getRecipes().find(r => r.item_id === itemId);
+}
+
+export function saveRecipe(recipe: Recipe): void {
+  const recipes = getRecipes();
+  const idx = recipes.findIndex(r => r.item_id === recipe.item_id);
+  if (idx >= 0) recipes[idx] = recipe;
+  else recipes.push(recipe);
+  set(KEYS.RECIPES, recipes);
+}
+
+// ── STOCK ───────────────────────────────────────────────────
+
+export function getStockMovements(): StockMovement[] {
+  return get<StockMovement[]>(KEYS.STOCK, []);
+}
 
-export function getCosts(): CostEntry[] {
-  return get<CostEntry[]>(KEYS.COSTS, []);
+export function saveStockMovements(movements: StockMovement[]): void {
+  set(KEYS.STOCK, movements);
 }
 
-export function saveCost(cost: CostEntry): void {
-  const costs = getCosts();
-  const idx = costs.findIndex(c => c.id === cost.id);
-  if (idx >= 0) costs[idx] = cost;
-  else costs.push(cost);
-  set(KEYS.COSTS, costs);
+export function addStockMovement(movement: StockMovement): void {
+  saveStockMovements([...getStockMovements(), movement]);
+}
+
+/** Current on-hand quantity per ingredient id */
+export function getStockLevels(): Record<string, number> {
+  return getStockMovements().reduce((acc: Record<string, number>, m) => {
+    acc[m.ingredient_id] = (acc[m.ingredient_id] || 0) + m.quantity;
+    return acc;
+  }, {});
+}
+
+// ── PRODUCTION PLANS ────────────────────────────────────────
+
+export function getProductionPlans(): ProductionPlan[] {
+  return get<ProductionPlan[]>(KEYS.PLANS, []);
+}
+
+/** Replace the plan lines for one day */
+export function saveProductionPlans(date: string, plans: ProductionPlan[]): void {
+  set(KEYS.PLANS, [...getProductionPlans().filter(p => p.date !== date), ...plans]);
+}
+
+// ── PRODUCTION LOG ──────────────────────────────────────────
+
+export function getProductionLogs(): ProductionLog[] {
+  return get<ProductionLog[]>(KEYS.PRODUCTION, []);
+}
+
+/** Upsert by date + product; closed periods are frozen like orders */
+export function saveProductionLog(log: ProductionLog): void {
+  if (isPeriodClosed(log.date.slice(0, 7))) throw new PeriodClosedError(log.date.slice(0, 7));
+  const logs = getProductionLogs();
+  const idx = logs.findIndex(l => l.id === log.id);
+  if (idx >= 0) logs[idx] = log;
+  else logs.push(log);
+  set(KEYS.PRODUCTION, logs);
+}
+
+// ── OUTBOX ──────────────────────────────────────────────────
+
+export function getOutbox(): OutboxEntry[] {
+  return get<OutboxEntry[]>(KEYS.OUTBOX, []);
 }
 
-export function getCostForMonth(month: string): CostEntry | null {
-  return getCosts().find(c => c.month === month) || null;
+export function saveOutbox(entries: OutboxEntry[]): void {
+  set(KEYS.OUTBOX, entries);
 }
 
 // ── CONFIG ──────────────────────────────────────────────────
 
 export function getConfig(): Config {
-  return get<Config>(KEYS.CONFIG, DEFAULT_CONFIG);
+  return { ...DEFAULT_CONFIG, ...get<Partial<Config>>(KEYS.CONFIG, {}) };
 }
 
 export function saveConfig(config: Config): void {
@@ -142,14 +525,22 @@ export function verifyPin(pin: string): boolean {
 
 export function exportOrdersCSV(): string {
   const orders = getOrders();
-  const headers = ['id', 'date', 'item_name', 'quantity', 'unit_price', 'total_revenue', 'notes', 'created_at'];
+  const headers = ['id', 'date', 'item_id', 'item_name', 'quantity', 'unit_price', 'total_revenue', 'notes', 'created_at'];
   const rows = orders.map(o => [
-    o.id, o.date, o.item_name, o.quantity, o.unit_price, o.total_revenue, o.notes || '', o.created_at
+    o.id, o.date, o.item_id, o.item_name, o.quantity, o.unit_price, o.total_revenue, o.notes || '', o.created_at
   ].join(','));
   return [headers.join(','), ...rows].join('\n');
 }
 
-export function importOrdersCSV(csv: string): { imported: number; errors: number } {
+/**
+ * Parse exported orders back in, mapping each row to a catalogue item.
+ * `save` stores one row; the order repository's importOrders passes its
+ * record path so imports deplete stock and sync like sales.
+ */
+export function importOrdersCSV(
+  csv: string,
+  save: (order: Order) => void = saveOrder
+): { imported: number; errors: number } {
   const lines = csv.trim().split('\n');
   if (lines.length < 2) return { imported: 0, errors: 0 };
   const headers = lines[0].split(',');
@@ -160,18 +551,20 @@ export function importOrdersCSV(csv: string): { imported: number; errors: number
       const values = lines[i].split(',');
       const obj: Record<string, string> = {};
       headers.forEach((h, idx) => { obj[h.trim()] = values[idx]?.trim() || ''; });
+      const item = (obj.item_id && getItem(obj.item_id)) || findItem(obj.item_name);
+      if (!item) throw new Error(`Unknown product: ${obj.item_name}`);
       const order: Order = {
         id: obj.id || crypto.randomUUID(),
         date: obj.date,
-        item_id: '1',
-        item_name: obj.item_name as Order['item_name'],
+        item_id: item.id,
+        item_name: obj.item_name || item.name,
         quantity: Number(obj.quantity),
         unit_price: Number(obj.unit_price),
         total_revenue: Number(obj.total_revenue),
         notes: obj.notes,
         created_at: obj.created_at || new Date().toISOString(),
       };
-      saveOrder(order);
+      save(order);
       imported++;
     } catch {
       errors++;
@@ -185,9 +578,19 @@ export function importOrdersCSV(csv: string): { imported: number; errors: number
 export function exportBackup(): string {
   return JSON.stringify({
     orders: getOrders(),
-    costs: getCosts(),
+    transactions: getTransactions(),
+    expenses: getExpenses(),
+    expense_categories: getExpenseCategories(),
+    ingredients: getIngredients(),
+    recipes: getRecipes(),
+    stock_movements: getStockMovements(),
+    production_plans: getProductionPlans(),
+    production_logs: getProductionLogs(),
     config: getConfig(),
     items: getItems(),
+    periods: getPeriods(),
+    events: getEvents(),
+    anomaly_labels: getAnomalyLabels(),
     exported_at: new Date().toISOString(),
   }, null, 2);
 }
@@ -196,9 +599,21 @@ export function importBackup(json: string): boolean {
   try {
     const data = JSON.parse(json);
     if (data.orders) set(KEYS.ORDERS, data.orders);
-    if (data.costs) set(KEYS.COSTS, data.costs);
+    if (data.transactions) set(KEYS.TRANSACTIONS, data.transactions);
+    // Backups taken before the expense ledger carry monthly costs instead
+    if (data.expenses) set(KEYS.EXPENSES, data.expenses);
+    else if (data.costs) set(KEYS.EXPENSES, migrateCostEntries(data.costs));
+    if (data.expense_categories) set(KEYS.EXPENSE_CATEGORIES, data.expense_categories);
+    if (data.ingredients) set(KEYS.INGREDIENTS, data.ingredients);
+    if (data.recipes) set(KEYS.RECIPES, data.recipes);
+    if (data.stock_movements) set(KEYS.STOCK, data.stock_movements);
+    if (data.production_plans) set(KEYS.PLANS, data.production_plans);
+    if (data.production_logs) set(KEYS.PRODUCTION, data.production_logs);
     if (data.config) set(KEYS.CONFIG, data.config);
     if (data.items) set(KEYS.ITEMS, data.items);
+    if (data.periods) set(KEYS.PERIODS, data.periods);
+    if (data.events) set(KEYS.EVENTS, data.events);
+    if (data.anomaly_labels) set(KEYS.ANOMALY_LABELS, data.anomaly_labels);
     return true;
   } catch {
     return false;
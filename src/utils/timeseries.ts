@@ -0,0 +1,117 @@
+// ============================================================
+// LSRIS Time Series — calendar-aware daily series
+// Fills every calendar day, tells closed days from zero-sales
+// days, and hands the math engine consecutive trading days
+// ============================================================
+
+import type { Order, Config } from '@/types';
+import { imputePoints } from '@/utils/math';
+
+export type TradingCalendar = Pick<Config, 'closed_weekdays' | 'closed_dates'>;
+
+export interface DailyPoint {
+  date: string;
+  revenue: number;
+  quantity: number;
+  lines: number; // order lines booked that day
+  closed: boolean; // scheduled closure with no sales
+}
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export function calendarFromConfig(config: Config): TradingCalendar {
+  return { closed_weekdays: config.closed_weekdays || [], closed_dates: config.closed_dates || [] };
+}
+
+/** Scheduled closure: a closed weekday or a listed closed date */
+export function isClosedDay(date: string, calendar: TradingCalendar): boolean {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return calendar.closed_weekdays.includes(weekday) || calendar.closed_dates.includes(date);
+}
+
+/** Trading days in a week — the seasonal period once closed weekdays drop out */
+export function seasonLength(calendar: TradingCalendar): number {
+  return Math.max(1, 7 - new Set(calendar.closed_weekdays).size);
+}
+
+/**
+ * One point per calendar day from `start` to `end` (inclusive; default
+ * first and last order date). Days without orders are zero; a closed day
+ * that still has sales counts as open.
+ */
+export function dailySeries(
+  orders: Order[],
+  calendar: TradingCalendar,
+  options: { start?: string; end?: string; itemId?: string } = {}
+): DailyPoint[] {
+  const dates = orders.map(o => o.date).sort();
+  const start = options.start || dates[0];
+  const end = options.end || dates[dates.length - 1];
+  if (!start || !end || start > end) return [];
+
+  const byDate: Record<string, { revenue: number; quantity: number; lines: number }> = {};
+  orders
+    .filter(o => o.date >= start && o.date <= end && (!options.itemId || o.item_id === options.itemId))
+    .forEach(o => {
+      const d = byDate[o.date] || (byDate[o.date] = { revenue: 0, quantity: 0, lines: 0 });
+      d.revenue += o.total_revenue;
+      d.quantity += o.quantity;
+      d.lines += 1;
+    });
+
+  const points: DailyPoint[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const d = byDate[date] || { revenue: 0, quantity: 0, lines: 0 };
+    points.push({ date, ...d, closed: d.lines === 0 && isClosedDay(date, calendar) });
+  }
+  return points;
+}
+
+/**
+ * Drops the closed weekdays, so consecutive points are consecutive
+ * trading days. A one-off closed date keeps its place, so the weekly
+ * phase holds after it, and is imputed like a labelled anomaly day; it
+ * stays marked `closed`.
+ */
+export function tradingDays(points: DailyPoint[], calendar: TradingCalendar): DailyPoint[] {
+  const open = points.filter(
+    p => !p.closed || !calendar.closed_weekdays.includes(new Date(`${p.date}T00:00:00Z`).getUTCDay())
+  );
+  const mask = open.map(p => p.closed);
+  if (!mask.some(Boolean)) return open;
+  const season = seasonLength(calendar);
+  const revenue = imputePoints(open.map(p => p.revenue), mask, season);
+  const quantity = imputePoints(open.map(p => p.quantity), mask, season);
+  return open.map((p, i) => ({ ...p, revenue: revenue[i], quantity: quantity[i] }));
+}
+
+/**
+ * One product's points on the stall's trading days (`stall` is tradingDays
+ * over all products), so a day when only other products sold stays a
+ * genuine zero rather than a closure.
+ */
+export function productTradingDays(
+  points: DailyPoint[],
+  stall: DailyPoint[],
+  calendar: TradingCalendar
+): DailyPoint[] {
+  const closed = new Map(stall.map(p => [p.date, p.closed]));
+  return tradingDays(
+    points.filter(p => closed.has(p.date)).map(p => ({ ...p, closed: closed.get(p.date) })),
+    calendar
+  );
+}
+
+/** The next `count` trading days from `from` (inclusive) */
+export function nextTradingDays(from: string, count: number, calendar: TradingCalendar): string[] {
+  const out: string[] = [];
+  // A fully closed calendar would never end; stop after a year
+  for (let date = from, i = 0; out.length < count && i < 366; date = addDays(date, 1), i++) {
+    if (!isClosedDay(date, calendar)) out.push(date);
+  }
+  return out;
+}
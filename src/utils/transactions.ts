@@ -0,0 +1,74 @@
+// ============================================================
+// LSRIS Transactions — basket helpers
+// A transaction groups Orders by transaction_id; legacy orders
+// without one count as single-line transactions
+// ============================================================
+
+import type { Order, BasketMetrics, Transaction } from '@/types';
+import { mean } from '@/utils/math';
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Split a transaction discount across lines in proportion to their
+ * gross value. Rounded to cents; the remainder lands on the last line
+ * so the shares always sum to the discount.
+ */
+export function allocateDiscount(lineTotals: number[], discount: number): number[] {
+  const gross = lineTotals.reduce((a, b) => a + b, 0);
+  if (gross <= 0 || discount <= 0) return lineTotals.map(() => 0);
+  const shares = lineTotals.map(t => round2(discount * t / gross));
+  const allocated = shares.slice(0, -1).reduce((a, b) => a + b, 0);
+  shares[shares.length - 1] = round2(discount - allocated);
+  return shares;
+}
+
+export function groupTransactions(orders: Order[]): Order[][] {
+  const groups = new Map<string, Order[]>();
+  orders.forEach(o => {
+    const key = o.transaction_id || `order:${o.id}`;
+    const list = groups.get(key);
+    if (list) list.push(o);
+    else groups.set(key, [o]);
+  });
+  return [...groups.values()];
+}
+
+/**
+ * Transactions rebuilt from their lines' transaction_id and receipt_no,
+ * so baskets rung up on another device appear once its orders sync.
+ * Known transactions keep their notes and created_at; a basket whose
+ * receipt is unknown here (recorded before receipts synced) is skipped.
+ */
+export function transactionsFromOrders(orders: Order[], existing: Transaction[]): Transaction[] {
+  const known = new Map(existing.map(t => [t.id, t]));
+  return groupTransactions(orders.filter(o => o.transaction_id)).flatMap(lines => {
+    const first = lines[0];
+    const tx = known.get(first.transaction_id);
+    const receipt = tx?.receipt_no || first.receipt_no;
+    if (!receipt) return [];
+    const subtotal = lines.reduce((s, o) => s + o.quantity * o.unit_price, 0);
+    const discount = lines.reduce((s, o) => s + (o.discount || 0), 0);
+    return [{
+      id: first.transaction_id,
+      receipt_no: receipt,
+      date: first.date,
+      order_ids: lines.map(o => o.id),
+      subtotal,
+      discount,
+      total: subtotal - discount,
+      notes: tx ? tx.notes : first.notes,
+      created_at: tx?.created_at || first.created_at,
+    }];
+  });
+}
+
+export function basketMetrics(orders: Order[]): BasketMetrics {
+  const baskets = groupTransactions(orders);
+  return {
+    transactions: baskets.length,
+    avg_basket_value: mean(baskets.map(b => b.reduce((s, o) => s + o.total_revenue, 0))),
+    avg_basket_units: mean(baskets.map(b => b.reduce((s, o) => s + o.quantity, 0))),
+    avg_basket_lines: mean(baskets.map(b => b.length)),
+  };
+}